@@ -1,18 +1,57 @@
 import Action from './actions/Action';
 import BlotSpec from './specs/BlotSpec';
+import GenericEmbedSpec from './specs/GenericEmbedSpec';
 import CaretAction from './actions/CaretAction';
 import deepmerge from 'deepmerge';
+import MultiSelection from './selection/MultiSelection';
 import type Quill from 'quill';
 import Toolbar from './actions/toolbar/Toolbar';
+import ContextMenu from './actions/toolbar/ContextMenu';
+import Inspector from './inspect/Inspector';
 import TooltipContainPosition from './tooltip/TooltipContainPosition';
+import LayoutTracker from './tracking/LayoutTracker';
+import BreakpointPreview from './responsive/BreakpointPreview';
 import type { AttributorClass } from './actions/align/AlignFormats';
 import { createAltTitleImageBlotClass } from './blots/Image';
+import { createFigureBlotClass } from './blots/Figure';
+import { createNativeAudioBlotClass, createNativeVideoBlotClass } from './blots/Media';
 import { createIframeAlignAttributor, createImageAlignAttributor } from './actions/align/AlignFormats';
-import { createResponsiveVideoBlotClass } from './blots/Video';
+import { createResponsiveVideoBlotClass, createAspectRatioVideoBlotClass } from './blots/Video';
 import { DefaultOptions } from './DefaultOptions';
+import type { Blot } from './specs/BlotSpec';
 import type { Options } from './Options';
+import type {
+  BlotFormatterEventHandler,
+  BlotFormatterEventMap,
+  BlotFormatterEventName,
+  BlotFormatterEventPayload
+} from './Events';
 
 const dontMerge = (destination: Array<any>, source: Array<any>) => source;
+// only merge arrays and plain objects - DOM elements in options (e.g. toolbar.dockedHost) are kept by reference
+const isMergeable = (value: any): boolean =>
+  Array.isArray(value) || Object.prototype.toString.call(value) === '[object Object]';
+
+/**
+ * Formats registered with a Quill constructor, shared by every formatter instance using that constructor.
+ *
+ * - `ImageAlign` / `IframeAlign`: the registered align attributors.
+ * - `blots`: the custom blot formats registered (e.g. `formats/image`).
+ */
+type RegisteredFormats = {
+  ImageAlign: AttributorClass;
+  IframeAlign: AttributorClass;
+  blots: Set<string>;
+};
+
+// formats registered per Quill constructor - registering again would replace the formats used by other editors
+const registeredFormats: WeakMap<object, RegisteredFormats> = new WeakMap();
+// injected style element per host node (document head or shadow root) with the number of instances using it
+const sharedStyles: WeakMap<Node, { element: HTMLStyleElement, count: number }> = new WeakMap();
+// class added to the quill container when inspect mode is allowed
+const INSPECTABLE_CLASS = 'blot-formatter__inspectable';
+// hides proxy images when the editor is disabled, unless embeds can be inspected
+const SHARED_CSS = `.ql-disabled:not(.${INSPECTABLE_CLASS}) .blot-formatter__proxy-image {display: none;}`;
 
 /**
  * Represents the possible positions of a pointer relative to the formatter overlay.
@@ -31,6 +70,11 @@ enum PointerPosition {
   INSIDE = 'inside',
 }
 
+type EventListenerEntry = {
+  handler: BlotFormatterEventHandler<any>;
+  once: boolean;
+};
+
 type PxString = `${number}px`;
 type CssRectPx = {
   left: PxString;
@@ -50,6 +94,7 @@ type CssRectPx = {
  * - Supports custom actions, alignment, and resizing (with both relative and absolute sizing).
  * - Integrates with Quill's keyboard bindings to fix known issues with embedded content.
  * - Handles touch and mouse interactions, including scrolling and context menu suppression.
+ * - Optionally replaces the native context menu on embeds with a menu of the toolbar commands.
  * - Registers and manages custom blots and attributors for advanced formatting.
  * - Provides robust cleanup and destruction of all event listeners and DOM elements.
  * - Exposes debugging hooks and logs when enabled via options.
@@ -78,14 +123,20 @@ export default class BlotFormatter {
   specs: BlotSpec[];
   overlay: HTMLElement;
   toolbar: Toolbar;
+  contextMenu: ContextMenu | null = null;
+  inspector: Inspector | null = null;
   sizeInfo: HTMLElement;
   actions: Action[];
+  multiSelection: MultiSelection;
+  layoutTracker: LayoutTracker;
+  breakpointPreview: BreakpointPreview;
   private _enabled: boolean = true;
   private _startX: number = 0; // touch scroll tracking
   private _startY: number = 0;
   private _abortController?: AbortController;
-  private _resizeObserver?: ResizeObserver;
   private _tooltipContainPosition?: TooltipContainPosition;
+  private _eventListeners: Map<BlotFormatterEventName, EventListenerEntry[]> = new Map();
+  private _sharedStyleHost: Node | null = null;
   ImageAlign: AttributorClass;
   IframeAlign: AttributorClass;
 
@@ -98,43 +149,44 @@ export default class BlotFormatter {
       (window as any).blotFormatter = this;
     }
 
-    // Register the custom align formats with Quill
-    const ImageAlignClass = createImageAlignAttributor(this.Quill);
-    const IframeAlignClass = createIframeAlignAttributor(this.Quill);
-
-    // Create instances of the classes
-    this.ImageAlign = new ImageAlignClass(options.debug);
-    this.IframeAlign = new IframeAlignClass(options.debug);
-
-    // Register the align formats with Quill
-    if (options.debug) console.debug('Registering custom align formats', this.ImageAlign, this.IframeAlign);
-    this.Quill.register({
-      'formats/imageAlign': this.ImageAlign,
-      'attributors/class/imageAlign': this.ImageAlign,
-      'formats/iframeAlign': this.IframeAlign,
-      'attributors/class/iframeAlign': this.IframeAlign,
-    }, true);
+    // Register the custom align formats with Quill (once per Quill constructor)
+    const formats = this._registerAlignFormats(options.debug);
+    this.ImageAlign = formats.ImageAlign;
+    this.IframeAlign = formats.IframeAlign;
 
     // merge custom options with default
-    this.options = deepmerge(DefaultOptions, options, { arrayMerge: dontMerge });
+    this.options = deepmerge(DefaultOptions, options, { arrayMerge: dontMerge, isMergeableObject: isMergeable });
     if (options.debug) console.debug('BlotFormatter options', this.options);
 
     // set enabled, add css to hide proxy images when editor is disabled
     this._enabled = !(this.quill.options.readOnly || this.quill.container.classList.contains('ql-disabled'));
-    const style = document.createElement('style');
-    style.innerHTML = `.ql-disabled .blot-formatter__proxy-image {display: none;}`;
-    document.head.appendChild(style);
+    this._addSharedStyle();
 
     // create overlay & size info plus associated event listeners 
     [this.overlay, this.sizeInfo] = this._createOverlay();
+    this.multiSelection = new MultiSelection(this);
+    this.layoutTracker = new LayoutTracker(this);
+    this.breakpointPreview = new BreakpointPreview(this);
     this._addEventListeners();
     // create overlay toolbar
     this.toolbar = new Toolbar(this);
     if (options.debug) console.debug('BlotFormatter toolbar', this.toolbar);
-    // define which specs to be formatted, initialise each
-    this.specs = this.options.specs.map(
-      (SpecClass: new (formatter: BlotFormatter) => BlotSpec) => new SpecClass(this)
-    );
+    // create context menu if enabled
+    if (this.options.contextMenu.allowContextMenu) {
+      this.contextMenu = new ContextMenu(this);
+    }
+    // create inspector for disabled editors if enabled, keep proxy images visible for inspection
+    if (this.options.inspect.allowInspect) {
+      this.inspector = new Inspector(this);
+      this.quill.container.classList.add(INSPECTABLE_CLASS);
+    }
+    // define which specs to be formatted, plus a generic spec for each custom embed type, initialise each
+    this.specs = [
+      ...this.options.specs.map(
+        (SpecClass: new (formatter: BlotFormatter) => BlotSpec) => new SpecClass(this)
+      ),
+      ...this.options.embeds.map(config => new GenericEmbedSpec(this, config))
+    ];
     this.specs.forEach(spec => spec.init());
     if (options.debug) console.debug('BlotFormatter specs', this.specs);
     // set position relative on quill container for absolute positioning of overlay & proxies 
@@ -163,6 +215,12 @@ export default class BlotFormatter {
       this._removeEventListeners();
       this._destroyActions();
       this.toolbar?.destroy();
+      this.contextMenu?.destroy();
+      this.contextMenu = null;
+      this.inspector?.destroy();
+      this.inspector = null;
+      this.quill.container.classList.remove(INSPECTABLE_CLASS);
+      this.breakpointPreview.destroy();
 
       // Clean up DOM references
       if (this.overlay?.parentNode) {
@@ -171,16 +229,20 @@ export default class BlotFormatter {
 
       // Clear references
       this.currentSpec = null;
+      this.specs.forEach(spec => spec.destroy());
       this.specs = [];
       this.actions = [];
+      this._eventListeners.clear();
 
       if (this.options.tooltip?.containTooltipPosition && this._tooltipContainPosition) {
         this._tooltipContainPosition?.destroy();
       }
 
-      // Remove global reference
-      if ((window as any).bf === this) {
-        delete (window as any).bf;
+      this._removeSharedStyle();
+
+      // Remove global debugging reference
+      if ((window as any).blotFormatter === this) {
+        delete (window as any).blotFormatter;
       }
 
       this.quill = null;
@@ -190,11 +252,68 @@ export default class BlotFormatter {
     }
   };
 
+  /**
+   * The root node the editor is rendered in.
+   *
+   * Returns the `ShadowRoot` if the Quill container is inside a shadow tree (e.g. mounted in a custom element),
+   * otherwise the `document`. Used for keyboard listeners, modal lookups and focus tracking so that
+   * events and elements inside the shadow tree are seen with their original targets.
+   *
+   * @returns The ShadowRoot containing the editor, or the document.
+   */
+  get rootNode(): Document | ShadowRoot {
+    const root = this.quill?.container?.getRootNode();
+    return typeof ShadowRoot !== 'undefined' && root instanceof ShadowRoot ? root : document;
+  }
+
+  /**
+   * The node injected `<style>` elements are appended to: the editor's `ShadowRoot`, or `document.head`.
+   *
+   * @returns The node to append styles to.
+   */
+  get styleHost(): ShadowRoot | HTMLElement {
+    const root = this.rootNode;
+    return root instanceof Document ? root.head : root;
+  }
+
+  /**
+   * The node modal dialogs are appended to: the editor's `ShadowRoot`, or `document.body`.
+   *
+   * @returns The node to append modals to.
+   */
+  get modalHost(): ShadowRoot | HTMLElement {
+    const root = this.rootNode;
+    return root instanceof Document ? root.body : root;
+  }
+
+  /**
+   * Indicates whether a blot formatter modal (e.g. the alt/title or compress dialog) is open.
+   *
+   * @returns `true` if an element with the `data-blot-formatter-modal` attribute is found in the root node.
+   */
+  get modalOpen(): boolean {
+    return !!this.rootNode.querySelector('[data-blot-formatter-modal]');
+  }
+
+  /**
+   * Returns the element an event was originally dispatched to.
+   *
+   * Events from inside a shadow tree are retargeted to the shadow host for listeners outside of it.
+   * The first entry of the composed path is the original target, whichever node the listener is on.
+   *
+   * @param event - The event.
+   * @returns The original event target.
+   */
+  getEventTarget = (event: Event): EventTarget | null => {
+    return event.composedPath?.()[0] ?? event.target;
+  }
+
   /**
    * Indicates whether the blot formatter is currently active.
    *
    * When `true`, formatting controls and interactions are available.
-   * When `false`, the formatter is disabled and will not react to user input. Proxy images are hidden by css.
+   * When `false`, the formatter is disabled and will not react to user input. Proxy images are hidden by css
+   * unless `inspect.allowInspect` is set, in which case clicked embeds are shown in the read-only inspect panel.
    *
    * @returns True if the formatter is enabled; otherwise false.
    */
@@ -208,12 +327,13 @@ export default class BlotFormatter {
    * When set to false, any currently visible formatter interface (such as
    * overlays, resize handles, or toolbars) is immediately hidden via `hide()`.
    * While disabled, user interactions that would normally trigger the formatter
-   * are ignored until re-enabled.
+   * are ignored until re-enabled. When set to true, any open inspect panel is closed.
    *
    * @param value True to enable the formatter; false to disable it and hide all active UI.
    */
   set enabled(value: boolean) {
     if (!value) this.hide();
+    if (value) this.inspector?.hide();
     this._enabled = value;
   }
 
@@ -233,20 +353,15 @@ export default class BlotFormatter {
    * modifications to Quill's core. This avoids polling and keeps formatter state consistent.
    *
    * Lifecycle:
-   * - Should be started after the editor container is available.
+   * - Created and started by `_addEventListeners()` once the formatter is attached to the editor,
+   *   so that constructing the class never touches browser-only APIs.
    * - Must be disconnected during teardown (e.g., in a destroy/dispose method) to prevent memory leaks.
    *
    * Caveats:
    * - Assumes the presence and semantic meaning of the 'ql-disabled' class as used by Quill.
    * - If external code mutates classes frequently, this may fire often; the handler is intentionally lightweight.
    */
-  private _qlDisabledObserver = new MutationObserver(mutations => {
-    mutations.forEach(mutation => {
-      if (mutation.type === 'attributes' && mutation.attributeName === 'class') {
-        this.enabled = !this.quill.container.classList.contains('ql-disabled');
-      }
-    });
-  });
+  private _qlDisabledObserver?: MutationObserver;
 
   /**
    * Displays the blot formatter overlay for the specified blot.
@@ -264,13 +379,19 @@ export default class BlotFormatter {
    * - Adds a document-level pointerdown event listener to handle outside clicks.
    * - Logs debug information if enabled in options.
    *
+   * If the editor is readOnly or disabled, the blot is shown in the read-only inspect panel instead
+   * when `inspect.allowInspect` is set, otherwise nothing is shown.
+   *
    * @param spec - The specification of the blot (*BlotSpec*) to be formatted.
    * @returns void
    */
   show = (spec: BlotSpec): void => {
     try {
-      // exit early if editor is readOnly or disabled
-      if (!this.enabled) return;
+      // inspect or exit early if editor is readOnly or disabled
+      if (!this.enabled) {
+        this.inspector?.show(spec);
+        return;
+      }
       // hide any open tooltips (closes open hyperlink dialog and more)
       this.quill.container.querySelectorAll('.ql-tooltip:not(.ql-hidden)').forEach(
         (tooltip: HTMLElement) => {
@@ -285,12 +406,17 @@ export default class BlotFormatter {
       this.currentSpec.setSelection();
       this._setUserSelect('none');
       this.quill.container.appendChild(this.overlay);
+      // collect scrollable ancestors again in case the editor has moved in the DOM
+      this.layoutTracker.start();
       this._repositionOverlay();
       this._createActions(spec);
       this.toolbar.create();
-      this._scrollToolbarIntoView(this.toolbar.element);
+      if (!this.options.contextMenu.hideToolbar) {
+        this._scrollToolbarIntoView(this.toolbar.element);
+      }
       document.addEventListener('pointerdown', this._onDocumentPointerDown);
       if (this.options.debug) console.debug('BlotFormatter show', spec);
+      this.emit('show', this.getEventPayload());
     } catch (error) {
       console.error('Error showing BlotFormatter:', error);
       this.hide();
@@ -304,8 +430,9 @@ export default class BlotFormatter {
    *
    * If a pointer event is provided, determines the click position relative to the target blot
    * and places the caret before or after the blot accordingly. Calls the `onHide` method of the
-   * current spec, removes the overlay from the DOM, removes event listeners, resets user selection,
+   * current spec, clears any multi-selection, closes the context menu, removes the overlay from the DOM, removes event listeners, resets user selection,
    * destroys toolbar and actions, and emits a `TEXT_CHANGE` event to ensure the editor state is updated.
+   * Finally, emits the `hide` lifecycle event with the target that was deselected.
    *
    * @param event - Optional pointer event that triggered the hide action. Used to determine caret placement.
    */
@@ -324,8 +451,11 @@ export default class BlotFormatter {
           }
         }
       }
+      const payload = this.getEventPayload();
       this.currentSpec.onHide();
       this.currentSpec = null;
+      this.multiSelection.clear();
+      this.contextMenu?.close();
       this.quill.container.removeChild(this.overlay);
       document.removeEventListener('pointerdown', this._onDocumentPointerDown);
       this.overlay.style.setProperty('display', 'none');
@@ -336,10 +466,173 @@ export default class BlotFormatter {
       this.quill.emitter.emit(
         this.quill.constructor.events.TEXT_CHANGE, 0, this.quill.getLength(), 'api'
       );
+      this.emit('hide', payload);
     }
     if (this.options.debug) console.debug('BlotFormatter hide');
   }
 
+  /**
+   * Adds the element to, or removes it from, the multi-selection.
+   *
+   * Multi-selection requires `multiSelect.allowMultiSelect` and an active overlay (the primary target).
+   * Selecting the primary target again has no effect. Align, resize and delete actions are applied to
+   * the primary target and every additional selected target.
+   *
+   * @param spec - The spec that handles the element.
+   * @param element - The element to toggle.
+   * @returns `true` if the request was handled as a multi-selection, `false` if the caller should
+   * handle it as a normal selection.
+   */
+  toggleSelection = (spec: BlotSpec, element: HTMLElement): boolean => {
+    if (!this.enabled || !this.options.multiSelect.allowMultiSelect || !this.currentSpec) {
+      return false;
+    }
+    if (element !== this.currentSpec.getTargetElement()) {
+      this.multiSelection.toggle(spec, element);
+    }
+    if (this.options.debug) console.debug('BlotFormatter toggleSelection', element, this.multiSelection.elements);
+    return true;
+  }
+
+  /**
+   * Selects a blot programmatically and shows the formatter overlay on it.
+   *
+   * The target can be given as a document index, the target element or its blot. The first spec in
+   * `specs` that can format the element has its target set directly (no click event is simulated)
+   * and is then shown.
+   *
+   * @param target - The document index of the embed, the element to format, or its blot.
+   * @returns `true` if a matching spec was found and the overlay shown, otherwise `false`.
+   *
+   * @example
+   * ```typescript
+   * const blotFormatter = quill.getModule('blotFormatter2');
+   * blotFormatter.select(quill.root.querySelector('img'));
+   * ```
+   */
+  select = (target: number | HTMLElement | Blot): boolean => {
+    if (!this.enabled) return false;
+    const element = this._resolveTargetElement(target);
+    if (!element) return false;
+    const spec = this.specs.find(spec => spec.canFormat(element));
+    if (!spec) {
+      if (this.options.debug) console.debug('BlotFormatter select: no spec can format', element);
+      return false;
+    }
+    spec.setTarget(element);
+    this.show(spec);
+    if (this.options.debug) console.debug('BlotFormatter selected', element);
+    return true;
+  }
+
+  /**
+   * Selects the next formattable element in document order.
+   *
+   * If nothing is selected, the first formattable element at or after the caret is selected
+   * (or the first in the document if the editor has no selection).
+   *
+   * @returns `true` if an element was selected, `false` if there is no next element.
+   */
+  selectNext = (): boolean => {
+    return this._selectSibling(1);
+  }
+
+  /**
+   * Selects the previous formattable element in document order.
+   *
+   * If nothing is selected, the last formattable element before the caret is selected
+   * (or the last in the document if the editor has no selection).
+   *
+   * @returns `true` if an element was selected, `false` if there is no previous element.
+   */
+  selectPrevious = (): boolean => {
+    return this._selectSibling(-1);
+  }
+
+  /**
+   * Returns the current selection: the primary target followed by any additional multi-selected targets.
+   *
+   * @returns An array of `{ target, blot, spec }` entries, empty if the overlay is not shown.
+   */
+  getSelected = (): BlotFormatterEventPayload[] => {
+    if (!this.currentSpec) return [];
+    return [
+      this.getEventPayload(),
+      ...this.multiSelection.targets.map(({ spec, element }) => ({
+        target: element,
+        blot: this.findBlot(element),
+        spec
+      }))
+    ];
+  }
+
+  /**
+   * Resolves a `select` target to the element to be formatted.
+   *
+   * `getLeaf` returns the leaf ending at an index, so the embed starting at a document index is found at `index + 1`.
+   *
+   * @param target - A document index, element or blot.
+   * @returns The element, or `null` if it cannot be found in the editor.
+   */
+  private _resolveTargetElement = (target: number | HTMLElement | Blot): HTMLElement | null => {
+    let element: unknown;
+    if (typeof target === 'number') {
+      element = this.quill.getLeaf(target + 1)[0]?.domNode;
+    } else if (target instanceof HTMLElement) {
+      element = target;
+    } else {
+      element = target?.domNode;
+    }
+    // figure blots (captioned images) are formatted via their image
+    if (element instanceof HTMLElement && element.matches('figure.ql-figure')) {
+      element = element.querySelector('img');
+    }
+    return element instanceof HTMLElement && this.quill.root.contains(element) ? element : null;
+  }
+
+  /**
+   * Returns every element in the editor that can be formatted by one of the registered specs,
+   * in document order.
+   *
+   * @returns The formattable elements.
+   */
+  private _getFormattableElements = (): HTMLElement[] => {
+    return Array.from(this.quill.root.querySelectorAll('*') as NodeListOf<HTMLElement>)
+      .filter(element => this.specs.some(spec => spec.canFormat(element)));
+  }
+
+  /**
+   * Selects the formattable element before or after the current target (or the caret if there is
+   * no current target).
+   *
+   * @param step - `1` to select the next element, `-1` to select the previous element.
+   * @returns `true` if an element was selected, otherwise `false`.
+   */
+  private _selectSibling = (step: 1 | -1): boolean => {
+    const elements = this._getFormattableElements();
+    if (!elements.length) return false;
+    const current = this.currentSpec?.getTargetElement();
+    let index = current ? elements.indexOf(current) : -1;
+    if (index >= 0) {
+      index += step;
+    } else {
+      const caret: number | undefined = this.quill.getSelection()?.index;
+      if (caret === undefined) {
+        index = step > 0 ? 0 : elements.length - 1;
+      } else {
+        const positions = elements.map(element => {
+          const blot = this.findBlot(element);
+          return blot ? this.quill.getIndex(blot) : -1;
+        });
+        index = step > 0
+          ? positions.findIndex(position => position >= caret)
+          : positions.map(position => position < caret).lastIndexOf(true);
+      }
+    }
+    if (index < 0 || index >= elements.length) return false;
+    return this.select(elements[index]);
+  }
+
   /**
    * Updates the state of the BlotFormatter overlay and its associated actions.
    *
@@ -355,6 +648,167 @@ export default class BlotFormatter {
     if (this.options.debug) console.debug('BlotFormatter update');
   }
 
+  /**
+   * Registers a handler for a BlotFormatter lifecycle event.
+   *
+   * Available events: `show`, `hide`, `resize-start`, `resize`, `resize-end`, `align-change`,
+   * `delete`, `link-change`, `attribute-change` and `compress`. Each handler receives a payload
+   * containing the target element, its blot and the active spec, plus any event specific values
+   * (see `BlotFormatterEventMap`).
+   *
+   * @param event - The name of the event to listen for.
+   * @param handler - The function to call when the event is emitted.
+   * @returns A function that removes the handler when called.
+   *
+   * @example
+   * ```typescript
+   * const off = blotFormatter.on('resize-end', ({ target, formattedWidth }) => {
+   *   console.log(target, formattedWidth);
+   * });
+   * ```
+   */
+  on = <K extends BlotFormatterEventName>(event: K, handler: BlotFormatterEventHandler<K>): (() => void) => {
+    this._addEventListener(event, handler, false);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Registers a handler that is called at most once for the given lifecycle event,
+   * after which it is removed automatically.
+   *
+   * @param event - The name of the event to listen for.
+   * @param handler - The function to call when the event is next emitted.
+   * @returns A function that removes the handler if it has not yet been called.
+   */
+  once = <K extends BlotFormatterEventName>(event: K, handler: BlotFormatterEventHandler<K>): (() => void) => {
+    this._addEventListener(event, handler, true);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Removes a handler previously registered with `on` or `once`.
+   * If no handler is given, all handlers for the event are removed.
+   *
+   * @param event - The name of the event.
+   * @param handler - The handler to remove (optional).
+   */
+  off = <K extends BlotFormatterEventName>(event: K, handler?: BlotFormatterEventHandler<K>): void => {
+    if (!handler) {
+      this._eventListeners.delete(event);
+      return;
+    }
+    const listeners = this._eventListeners.get(event);
+    if (listeners) {
+      this._eventListeners.set(event, listeners.filter(entry => entry.handler !== handler));
+    }
+  }
+
+  /**
+   * Emits a lifecycle event, calling each registered handler with the given payload.
+   *
+   * Handlers are called in registration order. Errors thrown by a handler are logged and do not
+   * prevent remaining handlers from being called or interrupt the formatter.
+   *
+   * @param event - The name of the event to emit.
+   * @param payload - The payload passed to each handler.
+   */
+  emit = <K extends BlotFormatterEventName>(event: K, payload: BlotFormatterEventMap[K]): void => {
+    const listeners = this._eventListeners.get(event);
+    if (this.options.debug) console.debug(`BlotFormatter emit '${event}'`, payload);
+    if (!listeners?.length) return;
+    // remove once handlers before calling in case a handler re-emits the same event
+    this._eventListeners.set(event, listeners.filter(entry => !entry.once));
+    listeners.forEach(entry => {
+      try {
+        entry.handler(payload);
+      } catch (error) {
+        console.error(`BlotFormatter '${event}' event handler error:`, error);
+      }
+    });
+  }
+
+  /**
+   * Builds the base event payload (target element, blot and spec) for the given spec.
+   *
+   * @param spec - The spec to build the payload for, defaults to the current spec.
+   * @returns The base payload used by all lifecycle events.
+   */
+  getEventPayload = (spec: BlotSpec | null = this.currentSpec): BlotFormatterEventPayload => {
+    return {
+      target: spec?.getTargetElement() ?? null,
+      blot: spec?.getTargetBlot() ?? null,
+      spec: spec
+    };
+  }
+
+  /**
+   * Returns the blot of a target element. For an image in a figure (captioned image), which has no blot of its own,
+   * the figure blot is returned.
+   *
+   * @param element - The target element (e.g. `<img>` or `<iframe>`).
+   * @returns The blot, or `null` if the element is not in the editor.
+   */
+  findBlot = (element: HTMLElement): Blot | null => {
+    const figure = element.closest('figure.ql-figure');
+    return this.Quill.find(figure && this.quill.root.contains(figure) ? figure : element) as Blot | null;
+  }
+
+  /**
+   * Applies formats to the blot of the given element through `quill.formatText` with source `user`.
+   *
+   * Formatting through Quill (rather than setting DOM attributes directly) records the change in
+   * `quill.history` so it can be undone, and includes it in the `text-change` delta so it reaches
+   * any collaborators listening for user changes.
+   *
+   * @param element - The target element (e.g. `<img>` or `<iframe>`). For an image in a figure (captioned image),
+   *   the figure blot is formatted.
+   * @param formats - The formats to apply, e.g. `{ width: '50%', height: 'auto' }`.
+   * @returns `true` if the blot was found and formatted, otherwise `false`.
+   */
+  formatBlot = (element: HTMLElement, formats: Record<string, unknown>): boolean => {
+    const blot = this.findBlot(element);
+    if (!blot) {
+      console.warn('BlotFormatter formatBlot: no blot found for element', element);
+      return false;
+    }
+    const index: number = this.quill.getIndex(blot);
+    this.quill.formatText(index, blot.length(), formats, this.Quill.sources.USER);
+    if (this.options.debug) console.debug('BlotFormatter formatBlot', element, formats);
+    return true;
+  }
+
+  /**
+   * Runs the given changes as a single undo step in `quill.history`.
+   *
+   * The history is cut off before and after the changes, and any pending DOM mutations are flushed
+   * as a `user` change before the closing cut off so that changes made with `blot.format` are
+   * included in the same step.
+   *
+   * @param changes - Function making the changes to the editor contents.
+   */
+  withHistoryStep = (changes: () => void): void => {
+    this.quill.history?.cutoff();
+    try {
+      changes();
+    } finally {
+      this.quill.update(this.Quill.sources.USER);
+      this.quill.history?.cutoff();
+    }
+  }
+
+  /**
+   * Adds an entry to the lifecycle event listener registry.
+   *
+   * @param event - The name of the event.
+   * @param handler - The handler to register.
+   * @param once - If true, the handler is removed after it is first called.
+   */
+  private _addEventListener = (event: BlotFormatterEventName, handler: BlotFormatterEventHandler<any>, once: boolean): void => {
+    const listeners = this._eventListeners.get(event) ?? [];
+    listeners.push({ handler, once });
+    this._eventListeners.set(event, listeners);
+  }
+
   /**
    * Initializes the actions for the given blot specification.
    * 
@@ -420,14 +874,34 @@ export default class BlotFormatter {
    * with an offset equal to the toolbar's height, then recalculates the toolbar's position.
    * If the toolbar is still above the viewport, it scrolls the window to bring the toolbar into view smoothly.
    *
+   * The active toolbar placement is respected: with `below` placement the same checks are made against the
+   * bottom of the editor and viewport, and a `docked` toolbar is left for the host page to position.
+   *
    * @param toolbarElement - The HTML element representing the toolbar to be scrolled into view.
    * @returns A promise that resolves when any necessary scrolling has completed.
    */
   private _scrollToolbarIntoView = async (toolbarElement: HTMLElement): Promise<void> => {
+    const placement = this.toolbar.placement;
+    if (placement === 'docked') return;
     let toolbarRect = toolbarElement.getBoundingClientRect();
     const quillRect = this.quill.container.getBoundingClientRect();
 
     const targetElement = this.currentSpec?.getTargetElement();
+    if (placement === 'below') {
+      if (toolbarRect.bottom > quillRect.bottom && targetElement) {
+        await this._scrollIntoViewWithOffset(targetElement, toolbarRect.height, 'bottom');
+        toolbarRect = toolbarElement.getBoundingClientRect();
+      }
+      // If toolbar is still below the viewport, scroll the window
+      if (toolbarRect.bottom > window.innerHeight) {
+        const distance = toolbarRect.bottom - window.innerHeight + toolbarRect.height;
+        if (this.options.debug) {
+          console.debug(`Scrolling window ${distance}px to bring toolbar into view`);
+        }
+        window.scrollBy({ top: distance, behavior: 'smooth' });
+      }
+      return;
+    }
     if (toolbarRect.top - quillRect.top < 0) {
       if (targetElement) {
         // Wait for the smooth scroll to complete
@@ -448,14 +922,15 @@ export default class BlotFormatter {
   /**
    * Scrolls the first scrollable ancestor of the given element into view with a specified offset.
    * If the element is outside the visible bounds of its scrollable ancestor, the ancestor is scrolled
-   * so that the element is visible with the given offset from the top. Returns a promise that resolves
+   * so that the element is visible with the given offset from the top (or bottom). Returns a promise that resolves
    * when scrolling has completed (or immediately if no scrolling was necessary).
    *
    * @param el - The target HTMLElement to scroll into view.
-   * @param offset - The number of pixels to offset from the top of the scrollable ancestor (default: 10).
+   * @param offset - The number of pixels to offset from the edge of the scrollable ancestor (default: 10).
+   * @param edge - The edge of the scrollable ancestor the offset is measured from (default: 'top').
    * @returns A promise that resolves when scrolling is finished.
    */
-  private _scrollIntoViewWithOffset = (el: HTMLElement, offset = 10): Promise<void> => {
+  private _scrollIntoViewWithOffset = (el: HTMLElement, offset = 10, edge: 'top' | 'bottom' = 'top'): Promise<void> => {
     return new Promise((resolve) => {
       let scrollingElement: Element | null = null;
 
@@ -466,7 +941,7 @@ export default class BlotFormatter {
         const containerRect = ancestor.getBoundingClientRect();
         const elRect = el.getBoundingClientRect();
 
-        if (elRect.top < containerRect.top + offset) {
+        if (edge === 'top' && elRect.top < containerRect.top + offset) {
           scrollingElement = ancestor;
           ancestor.scrollTo({
             top: ancestor.scrollTop + elRect.top - containerRect.top - offset
@@ -476,6 +951,16 @@ export default class BlotFormatter {
           }
           break; // Only scroll the first scrollable ancestor
         }
+        if (edge === 'bottom' && elRect.bottom > containerRect.bottom - offset) {
+          scrollingElement = ancestor;
+          ancestor.scrollTo({
+            top: ancestor.scrollTop + elRect.bottom - containerRect.bottom + offset
+          });
+          if (this.options.debug) {
+            console.debug(`Scrolling ancestor ${ancestor.tagName} to bring element into view with offset ${offset}px`);
+          }
+          break; // Only scroll the first scrollable ancestor
+        }
       }
 
       if (scrollingElement) {
@@ -533,14 +1018,18 @@ export default class BlotFormatter {
     // dismiss overlay if active and click on quill root
     this.quill.root.addEventListener('click', this._onClick, { signal });
 
-    // quill root event listeners
-    // scroll visible overlay if editor is scrollable
-    this.quill.root.addEventListener('scroll', this._repositionOverlay, { signal });
-
-    this._resizeObserver = new ResizeObserver(this._repositionOverlay);
-    this._resizeObserver.observe(this.quill.root);
+    // reposition visible overlay when the editor or any ancestor scrolls or changes size
+    this.layoutTracker.subscribe(this._repositionOverlay);
+    this.layoutTracker.start();
 
     // observe quill container for disabled state changes
+    this._qlDisabledObserver = new MutationObserver(mutations => {
+      mutations.forEach(mutation => {
+        if (mutation.type === 'attributes' && mutation.attributeName === 'class') {
+          this.enabled = !this.quill.container.classList.contains('ql-disabled');
+        }
+      });
+    });
     this._qlDisabledObserver.observe(this.quill.container, {
       attributes: true,
       attributeFilter: ['class']
@@ -551,18 +1040,20 @@ export default class BlotFormatter {
    * Removes event listeners and observers associated with the instance.
    * 
    * Aborts any ongoing operations managed by the internal AbortController,
-   * and disconnects the internal ResizeObserver to stop observing changes.
+   * and destroys the layout tracker to stop observing scroll and layout changes.
    *
    * @private
    */
   private _removeEventListeners = (): void => {
     this._abortController?.abort();
-    this._resizeObserver?.disconnect();
-    this._qlDisabledObserver.disconnect();
+    this.layoutTracker.destroy();
+    this._qlDisabledObserver?.disconnect();
   };
 
   /**
    * Prevents the default context menu from appearing and stops the event from propagating further.
+   * When `contextMenu.allowContextMenu` is enabled, the `ContextMenu` handles the event first (capture phase)
+   * and opens the formatter context menu instead.
    *
    * @param event - The event object associated with the context menu action.
    */
@@ -577,6 +1068,7 @@ export default class BlotFormatter {
    * Calculates the position and size of the overlay based on the bounding rectangles of the
    * Quill container and the overlay target element. Updates the overlay's style to match
    * the target's position and dimensions, ensuring it is correctly displayed over the selected blot.
+   * Overlays of any additional multi-selected targets are repositioned at the same time.
    * Optionally logs debug information if the `debug` option is enabled.
    *
    * @private
@@ -585,24 +1077,58 @@ export default class BlotFormatter {
     if (this.currentSpec) {
       const overlayTarget = this.currentSpec.getOverlayElement();
       if (overlayTarget) {
-        const containerRect: DOMRect = this.quill.container.getBoundingClientRect();
-        const specRect: DOMRect = overlayTarget.getBoundingClientRect();
-        const overlayRect: CssRectPx = {
-          left: `${specRect.left - containerRect.left - 1 + this.quill.container.scrollLeft}px`,
-          top: `${specRect.top - containerRect.top + this.quill.container.scrollTop}px`,
-          width: `${specRect.width}px`,
-          height: `${specRect.height}px`,
-        };
+        const overlayRect: CssRectPx = this._getOverlayRect(overlayTarget);
         Object.assign(this.overlay.style, {
           display: 'block',
           ...overlayRect
         });
         if (this.options.debug)
-          console.debug('Blotformatter _repositionOverlay', 'specRect:', specRect, 'overlayRect:', overlayRect);
+          console.debug('Blotformatter _repositionOverlay', 'target:', overlayTarget, 'overlayRect:', overlayRect);
       }
+      this.toolbar.updatePlacement();
+      this.multiSelection.reposition();
     }
   }
 
+  /**
+   * Calculates the css position and size for an overlay covering the given element,
+   * relative to the Quill container's padding box and accounting for container borders, scroll offsets
+   * and any css transform or zoom scaling the container.
+   *
+   * @param element - The element the overlay should cover.
+   * @returns The `left`, `top`, `width` and `height` css values in px.
+   */
+  _getOverlayRect = (element: HTMLElement): CssRectPx => {
+    const container: HTMLElement = this.quill.container;
+    const containerRect: DOMRect = container.getBoundingClientRect();
+    const elementRect: DOMRect = element.getBoundingClientRect();
+    const scale = this._getContainerScale();
+    return {
+      left: `${(elementRect.left - containerRect.left) / scale.x - container.clientLeft + container.scrollLeft}px`,
+      top: `${(elementRect.top - containerRect.top) / scale.y - container.clientTop + container.scrollTop}px`,
+      width: `${elementRect.width / scale.x}px`,
+      height: `${elementRect.height / scale.y}px`,
+    };
+  }
+
+  /**
+   * Returns the ratio of the Quill container's rendered size to its css layout size.
+   *
+   * Bounding client rects are measured in viewport pixels, which differ from the container's css pixels
+   * when the container or an ancestor is scaled by a css transform or `zoom`. Dividing client rect distances
+   * by this scale converts them to css pixels for absolute positioning inside the container.
+   *
+   * @returns The horizontal and vertical scale, `1` if the container is not scaled (or has no size).
+   */
+  _getContainerScale = (): { x: number, y: number } => {
+    const container: HTMLElement = this.quill.container;
+    const rect: DOMRect = container.getBoundingClientRect();
+    return {
+      x: container.offsetWidth && rect.width ? rect.width / container.offsetWidth : 1,
+      y: container.offsetHeight && rect.height ? rect.height / container.offsetHeight : 1
+    };
+  }
+
   /**
    * Sets the CSS `user-select` property (and its vendor-prefixed variants) to the specified value
    * on both the Quill editor root element and the document's root element.
@@ -633,16 +1159,18 @@ export default class BlotFormatter {
   /**
    * Handles the `pointerdown` event on the document to determine whether the blot formatter overlay should be dismissed.
    *
-   * If the pointer event target is outside the Quill editor, not within a blot formatter modal,
+   * If the pointer event target is outside the Quill editor, not within a blot formatter modal or docked toolbar,
    * and not a proxy image used by the blot formatter, the overlay is hidden.
+   * The original target is taken from the composed path so that pointer events inside a shadow tree are resolved correctly.
    *
    * @param event - The pointer event triggered by user interaction.
    */
   private _onDocumentPointerDown = (event: PointerEvent): void => {
     // if clicked outside of quill editor and not a blot formatter modal or iframe proxy image, dismiss overlay 
-    const target = event.target as HTMLElement;
+    const target = this.getEventTarget(event) as HTMLElement;
     if (!(
       this.quill.root.parentNode.contains(target) ||
+      this.toolbar.element.contains(target) ||
       target.closest('[data-blot-formatter-modal]') ||
       target.classList.contains('blot-formatter__proxy-image')
     )) {
@@ -654,12 +1182,23 @@ export default class BlotFormatter {
    * Handles pointer click events on the editor.
    * 
    * If debugging is enabled in the options, logs the click event to the console.
-   * Then, hides the formatter UI in response to the click event.
+   * A shift+click on a formattable blot while the overlay is active toggles that blot in the
+   * multi-selection. Otherwise, hides the formatter UI in response to the click event.
    *
    * @param event - The pointer event triggered by the user's click.
    */
   private _onClick = (event: PointerEvent): void => {
     if (this.options.debug) console.debug('BlotFormatter _onClick', event);
+    if (event.shiftKey && event.target instanceof HTMLElement) {
+      const target = event.target;
+      const spec = this.specs.find(spec => spec.canFormat(target));
+      if (spec && this.toggleSelection(spec, target)) {
+        // prevent spec click handlers replacing the primary selection
+        event.stopImmediatePropagation();
+        event.preventDefault();
+        return;
+      }
+    }
     if (this.enabled) this.hide(event);
   }
 
@@ -766,6 +1305,78 @@ export default class BlotFormatter {
     }
   };
 
+  /**
+   * Registers the `imageAlign` and `iframeAlign` formats with the Quill constructor.
+   *
+   * Formats are registered once per Quill constructor. Later formatter instances using the same constructor
+   * reuse the registered attributors rather than registering new ones, which would replace the formats
+   * used by editors already on the page.
+   *
+   * @param debug - Enables debug logging in the attributors and for the registration.
+   * @returns The formats registered with the Quill constructor.
+   *
+   * @private
+   */
+  private _registerAlignFormats = (debug: boolean = false): RegisteredFormats => {
+    const registered = registeredFormats.get(this.Quill);
+    if (registered) {
+      if (debug) console.debug('Using registered align formats', registered.ImageAlign, registered.IframeAlign);
+      return registered;
+    }
+    const ImageAlignClass = createImageAlignAttributor(this.Quill);
+    const IframeAlignClass = createIframeAlignAttributor(this.Quill);
+    const formats: RegisteredFormats = {
+      ImageAlign: new ImageAlignClass(debug),
+      IframeAlign: new IframeAlignClass(debug),
+      blots: new Set()
+    };
+    if (debug) console.debug('Registering custom align formats', formats.ImageAlign, formats.IframeAlign);
+    this.Quill.register({
+      'formats/imageAlign': formats.ImageAlign,
+      'attributors/class/imageAlign': formats.ImageAlign,
+      'formats/iframeAlign': formats.IframeAlign,
+      'attributors/class/iframeAlign': formats.IframeAlign,
+    }, true);
+    registeredFormats.set(this.Quill, formats);
+    return formats;
+  }
+
+  /**
+   * Adds the shared formatter style element to the style host, or increments the count of
+   * instances using it if another formatter has already added it to the same host.
+   *
+   * @private
+   */
+  private _addSharedStyle = (): void => {
+    const host = this.styleHost;
+    const shared = sharedStyles.get(host);
+    if (shared) {
+      shared.count++;
+    } else {
+      const element = document.createElement('style');
+      element.innerHTML = SHARED_CSS;
+      host.appendChild(element);
+      sharedStyles.set(host, { element, count: 1 });
+    }
+    this._sharedStyleHost = host;
+  }
+
+  /**
+   * Decrements the count of instances using the shared style element,
+   * removing the element when no instances remain.
+   *
+   * @private
+   */
+  private _removeSharedStyle = (): void => {
+    if (!this._sharedStyleHost) return;
+    const shared = sharedStyles.get(this._sharedStyleHost);
+    if (shared && --shared.count <= 0) {
+      shared.element.remove();
+      sharedStyles.delete(this._sharedStyleHost);
+    }
+    this._sharedStyleHost = null;
+  }
+
   /**
    * Registers custom Quill blots based on the provided options.
    *
@@ -773,14 +1384,22 @@ export default class BlotFormatter {
    *   that supports a title attribute.
    * - If `options.video.registerCustomVideoBlot` is enabled, registers a custom Video blot
    *   with responsive behavior and sets its default aspect ratio from the options.
+   * - If `options.image.allowCaptions` is enabled, registers the Figure blot for captioned images
+   *   and sets its caption placeholder from the options.
+   * - If `options.resize.allowFreeResize` is enabled, registers the aspect ratio format for freely resized iframes.
+   * - If `options.media.registerMediaBlots` is enabled, registers the native video and audio blots.
    *
+   * Each blot is registered once per Quill constructor, so the first instance's `defaultAspectRatio`
+   * applies to every editor using the constructor.
    * Debug information is logged to the console if `options.debug` is true.
    *
    * @private
    */
   private _registerCustomBlots = (): void => {
+    const registered = registeredFormats.get(this.Quill)!.blots;
     // register image bot with title attribute support
-    if (this.options.image.registerImageTitleBlot) {
+    if (this.options.image.registerImageTitleBlot && !registered.has('formats/image')) {
+      registered.add('formats/image');
       const ImageAltTitleBlot = createAltTitleImageBlotClass(this.Quill);
       if (this.options.debug) console.debug('Registering custom Image blot', ImageAltTitleBlot);
       this.Quill.register({ 'formats/image': ImageAltTitleBlot }, true);
@@ -789,19 +1408,48 @@ export default class BlotFormatter {
       }
     }
     // register custom video blot with initial width 100% & aspect ratio from options
-    if (this.options.video.registerCustomVideoBlot) {
+    if (this.options.video.registerCustomVideoBlot && !registered.has('formats/video')) {
+      registered.add('formats/video');
       const VideoResponsive = createResponsiveVideoBlotClass(this.Quill);
       if (this.options.debug) {
         console.debug('Registering custom Video blot', VideoResponsive);
         console.debug('Setting default aspect ratio for Video blot', this.options.video.defaultAspectRatio);
       }
-      // set default aspect ratio for video responsive blot
+      // set default aspect ratio for video responsive blot, and the providers setting their own aspect ratio
       VideoResponsive.aspectRatio = this.options.video.defaultAspectRatio;
+      VideoResponsive.providers = this.options.video.providers;
       this.Quill.register({ 'formats/video': VideoResponsive }, true);
       if (this.options.debug) {
         console.debug('formats/video after register:', this.Quill.import('formats/video'));
       }
     }
+    // register figure blot for captioned images
+    if (this.options.image.allowCaptions && !registered.has('formats/figure')) {
+      registered.add('formats/figure');
+      const Figure = createFigureBlotClass(this.Quill);
+      Figure.captionPlaceholder = this.options.image.captionPlaceholder;
+      if (this.options.debug) console.debug('Registering Figure blot', Figure);
+      this.Quill.register({ 'formats/figure': Figure }, true);
+    }
+    // extend the video blot with the aspect ratio format for free resize of iframes
+    if (this.options.resize.allowFreeResize && !registered.has('formats/aspectRatio')) {
+      registered.add('formats/aspectRatio');
+      const AspectRatioVideo = createAspectRatioVideoBlotClass(this.Quill);
+      AspectRatioVideo.aspectRatio = this.options.video.defaultAspectRatio;
+      AspectRatioVideo.providers = this.options.video.providers;
+      // the custom video blot applies the default aspect ratio on creation
+      AspectRatioVideo.restoreAspectRatio = registered.has('formats/video');
+      if (this.options.debug) console.debug('Registering aspect ratio video blot', AspectRatioVideo);
+      this.Quill.register({ 'formats/video': AspectRatioVideo }, true);
+    }
+    // register native <video> and <audio> blots
+    if (this.options.media.registerMediaBlots && !registered.has('formats/nativeVideo')) {
+      registered.add('formats/nativeVideo');
+      const NativeVideo = createNativeVideoBlotClass(this.Quill);
+      const NativeAudio = createNativeAudioBlotClass(this.Quill);
+      if (this.options.debug) console.debug('Registering native media blots', NativeVideo, NativeAudio);
+      this.Quill.register({ 'formats/nativeVideo': NativeVideo, 'formats/nativeAudio': NativeAudio }, true);
+    }
   }
 
   /**
@@ -812,8 +1460,11 @@ export default class BlotFormatter {
    * - Adds an ArrowRight key binding to fix cursor navigation issues when moving past images,
    *   ensuring the cursor does not get stuck or hidden at the image location.
    *   This is enabled if `options.image.registerArrowRightFix` is true.
+   * - Adds the keyboard select binding (`options.keyboard.selectBinding`) that selects the embed
+   *   next to the caret and opens the overlay with focus on the toolbar.
+   *   This is enabled if `options.keyboard.allowKeyboardSelect` is true.
    *
-   * Both bindings are conditionally registered based on the provided options.
+   * All bindings are conditionally registered based on the provided options.
    * Debug information is logged to the console if `options.debug` is enabled.
    *
    * @private
@@ -897,6 +1548,51 @@ export default class BlotFormatter {
       if (this.options.debug)
         console.debug('BlotFormatter added ArrowRightFix keyboard binding', arrowRightFixRule);
     }
+
+    // select the embed next to the caret for keyboard only users
+    if (this.options.keyboard.allowKeyboardSelect) {
+      const { key } = this.options.keyboard.selectBinding;
+      if (!this.quill.keyboard.bindings[key]) {
+        this.quill.keyboard.bindings[key] = []
+      }
+      const selectRule = {
+        ...this.options.keyboard.selectBinding,
+        handler: (range: any) => {
+          // return true to let Quill continue with other bindings if nothing to select
+          return !this._selectEmbedAtIndex(range.index);
+        }
+      };
+      this.quill.keyboard.bindings[key].unshift(selectRule);
+      if (this.options.debug)
+        console.debug('BlotFormatter added keyboard select binding', selectRule);
+    }
+  }
+
+  /**
+   * Selects the formattable embed adjacent to the given document index and shows the overlay,
+   * moving focus to the first toolbar button so the toolbar can be operated by keyboard.
+   * If the toolbar is hidden by `contextMenu.hideToolbar`, the context menu is opened instead.
+   *
+   * The leaf immediately after the index is checked first, then the leaf immediately before it.
+   * The first leaf that can be formatted by one of the registered specs is selected.
+   *
+   * @param index - The document index, typically the caret position.
+   * @returns `true` if an embed was found and selected, otherwise `false`.
+   */
+  private _selectEmbedAtIndex = (index: number): boolean => {
+    const candidates = [this.quill.getLeaf(index + 1)[0], this.quill.getLeaf(index)[0]];
+    for (const leaf of candidates) {
+      if (leaf && this.select(leaf as Blot)) {
+        if (this.contextMenu && this.options.contextMenu.hideToolbar) {
+          this.contextMenu.open();
+        } else {
+          this.toolbar.focus();
+        }
+        if (this.options.debug) console.debug('BlotFormatter keyboard selected embed at index', index);
+        return true;
+      }
+    }
+    return false;
   }
 
   /**
@@ -1,6 +1,9 @@
 import IframeVideoSpec from './specs/IframeVideoSpec';
 import ImageSpec from './specs/ImageSpec';
+import NativeAudioSpec from './specs/NativeAudioSpec';
+import NativeVideoSpec from './specs/NativeVideoSpec';
 import type { Options } from './Options';
+import { DEFAULT_IFRAME_PROVIDERS } from './providers/IframeProviders';
 
 const closeButtonIcon = `<svg viewBox="0 0 16 16" fill="currentColor" style="height:100%;width:auto"><path d="M2 0a2 2 0 0 0-2 2v12a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V2a2 2 0 0 0-2-2zm3.354 4.646L8 7.293l2.646-2.647a.5.5 0 0 1 .708.708L8.707 8l2.647 2.646a.5.5 0 0 1-.708.708L8 8.707l-2.646 2.647a.5.5 0 0 1-.708-.708L7.293 8 4.646 5.354a.5.5 0 1 1 .708-.708"/></svg>`;
 const okButtonIcon = `<svg viewBox="0 0 24 24" fill="currentcolor" style="height:100%;width:auto"><path fill-rule="evenodd" clip-rule="evenodd" d="M 12,24 C 6.34314,24 3.514716,24 1.757364,22.2426 0,20.48532 0,17.6568 0,12 0,6.34314 0,3.514716 1.757364,1.757364 3.514716,0 6.34314,0 12,0 17.6568,0 20.48532,0 22.2426,1.757364 24,3.514716 24,6.34314 24,12 24,17.6568 24,20.48532 22.2426,22.2426 20.48532,24 17.6568,24 12,24 Z M 16.83636,8.363604 c 0.35148,0.351468 0.35148,0.921324 0,1.272756 l -6,6 c -0.35148,0.35148 -0.92124,0.35148 -1.272756,0 l -2.4,-2.4 c -0.351468,-0.35148 -0.351468,-0.92124 0,-1.27272 0.351468,-0.35148 0.921324,-0.35148 1.272792,0 L 10.2,13.72716 15.56364,8.363604 c 0.35148,-0.351468 0.92124,-0.351468 1.27272,0 z" style="stroke-width:1.2" /></svg>`;
@@ -10,7 +13,11 @@ export const DefaultOptions: Options = {
   specs: [
     ImageSpec,
     IframeVideoSpec,
+    NativeVideoSpec,
+    NativeAudioSpec,
   ],
+  embeds: [],
+  actions: {},
   overlay: {
     className: 'blot-formatter__overlay',
     style: {
@@ -43,6 +50,8 @@ export const DefaultOptions: Options = {
     allowResizing: true,
     allowResizeModeChange: false,
     imageOversizeProtection: false,
+    allowFreeResize: false,
+    freeResizeModifier: 'altKey',
     handleClassName: 'blot-formatter__resize-handle',
     handleStyle: {
       position: 'absolute',
@@ -56,10 +65,77 @@ export const DefaultOptions: Options = {
     },
     useRelativeSize: false,
     minimumWidthPx: 25,
+    maxWidth: null,
+    minHeight: null,
+    maxHeight: null,
+    specConstraints: {},
+    snap: {
+      enabled: false,
+      relativeSizes: [25, 33, 50, 66, 75, 100],
+      pixelSizes: [],
+      pixelStep: 0,
+      thresholdPx: 8,
+      showGuides: false,
+      neighbourSelector: 'img, iframe, video',
+      guideClassName: 'blot-formatter__resize-guide',
+      guideStyle: {
+        position: 'absolute',
+        width: '0',
+        borderLeft: '1px dashed #e0115f',
+        pointerEvents: 'none',
+        zIndex: 998
+      }
+    },
+    responsive: {
+      enabled: false,
+      breakpoints: [
+        { name: 'tablet', minWidthPx: 768, label: 'Tablet' },
+        { name: 'desktop', minWidthPx: 1024, label: 'Desktop' }
+      ],
+      baseLabel: 'Mobile'
+    },
+    allowSizeInput: false,
+    allowKeyboardResize: false,
+    keyboardStep: 1,
+    keyboardShiftStep: 10,
+    sizeInputStyle: {
+      width: '4.5em',
+      margin: '0 0.25em',
+      padding: '0.1em 0.25em',
+      font: 'inherit',
+      color: '#222',
+      backgroundColor: 'rgba(255, 255, 255, 0.9)',
+      border: '1px solid #777',
+      borderRadius: '3px'
+    },
+    sizeInputLabels: {
+      width: 'Width',
+      height: 'Height',
+      unit: 'Unit'
+    },
   },
   delete: {
     allowKeyboardDelete: true,
   },
+  keyboard: {
+    allowKeyboardSelect: true,
+    selectBinding: {
+      key: 'Enter',
+      altKey: true
+    }
+  },
+  multiSelect: {
+    allowMultiSelect: false,
+    overlayClassName: 'blot-formatter__multi-select-overlay',
+    overlayStyle: {
+      position: 'absolute',
+      boxSizing: 'border-box',
+      border: '1px dashed #444',
+      backgroundColor: 'rgba(255, 255, 255, 0.35)',
+      pointerEvents: 'none',
+      zIndex: 9998
+    }
+  },
   toolbar: {
     icons: {
       left: `<svg viewbox="0 0 18 18"><line class="ql-stroke" x1="3" x2="15" y1="9" y2="9"></line><line class="ql-stroke" x1="3" x2="13" y1="14" y2="14"></line><line class="ql-stroke" x1="3" x2="9" y1="4" y2="4"></line></svg>`,
@@ -67,8 +143,17 @@ export const DefaultOptions: Options = {
       right: `<svg viewbox="0 0 18 18"><line class="ql-stroke" x1="15" x2="3" y1="9" y2="9"></line><line class="ql-stroke" x1="15" x2="5" y1="14" y2="14"></line><line class="ql-stroke" x1="15" x2="9" y1="4" y2="4"></line></svg>`,
       attribute: `<svg viewBox="0 0 24 24" fill="none" class="ql-stroke"><path d="M10 19H12M12 19H14M12 19V5M12 5H6V6M12 5H18V6" stroke-linecap="round" stroke-linejoin="round"/></svg>`,
       resizeMode: `<svg viewBox="0 0 24 24" class="ql-stroke"><path d="m 7.7056591,11.853515 q -1.515179,0 -2.4160962,-0.993056 -0.9009172,-1.0032944 -0.9009172,-2.6720388 0,-1.8223098 0.9521057,-2.8665548 0.9521057,-1.0544826 2.5696616,-1.0544826 1.5663674,0 2.426334,0.9725811 0.870204,0.972581 0.870204,2.7334647 0,1.7608836 -0.972581,2.8256044 -0.9623435,1.054482 -2.5287109,1.054482 z M 7.8489868,5.3935293 q -0.9725811,0 -1.5356544,0.7268764 -0.5630732,0.7166387 -0.5630732,1.9758752 0,1.2387612 0.5528356,1.9349241 0.5528355,0.685926 1.5049412,0.685926 0.9623434,0 1.5049413,-0.716639 0.5425978,-0.7166384 0.5425978,-1.9861126 0,-1.2387612 -0.5425978,-1.9246868 Q 8.7806171,5.3935293 7.8489868,5.3935293 Z M 17.533847,4.4926121 8.1151669,19.275845 H 6.6511764 L 16.059619,4.4926121 Z M 16.448651,19.398697 q -1.515179,0 -2.416096,-1.003294 -0.900917,-1.003294 -0.900917,-2.661801 0,-1.82231 0.962343,-2.876793 0.962344,-1.06472 2.559424,-1.06472 1.55613,0 2.426334,0.982819 0.870204,0.982819 0.870204,2.75394 0,1.750646 -0.972581,2.815366 -0.962343,1.054483 -2.528711,1.054483 z m 0.143328,-6.449748 q -0.982819,0 -1.545892,0.716638 -0.552836,0.716639 -0.552836,1.986113 0,1.218286 0.552836,1.914449 0.552835,0.685926 1.504941,0.685926 0.962343,0 1.504941,-0.716639 0.542598,-0.726876 0.542598,-1.986113 0,-1.248998 -0.542598,-1.924686 -0.53236,-0.675688 -1.46399,-0.675688 z" style="fill:currentColor;stroke:currentColor;stroke-width:0.3"/></svg>`,
+      breakpoint: `<svg viewBox="0 0 24 24" fill="none" class="ql-stroke"><path d="M2 5H16V15H2Z M6 19H12 M9 15V19 M15 10H22V21H15Z M18 18.5H19" stroke-linecap="round" stroke-linejoin="round"/></svg>`,
       compress: `<svg viewBox="0 0 28 28"><path d="m 19.250001,9.3125004 c 0.240623,0 0.437498,0.1968749 0.437498,0.4374991 V 18.49453 l -0.136717,-0.177734 -3.718751,-4.812498 c -0.123046,-0.161329 -0.317188,-0.254297 -0.51953,-0.254297 -0.202345,0 -0.39375,0.09297 -0.519532,0.254297 l -2.269532,2.936715 -0.833984,-1.167577 c -0.123047,-0.172265 -0.319922,-0.273437 -0.533204,-0.273437 -0.213281,0 -0.410156,0.101172 -0.533202,0.276172 l -2.1875003,3.0625 -0.1230462,0.169532 v -0.0082 -8.7500002 c 0,-0.2406242 0.1968749,-0.4374991 0.4374991,-0.4374991 z M 8.7499996,8 C 7.7847663,8 7,8.7847662 7,9.7499995 V 18.5 c 0,0.965233 0.7847663,1.75 1.7499996,1.75 H 19.250001 C 20.215235,20.25 21,19.465233 21,18.5 V 9.7499995 C 21,8.7847662 20.215235,8 19.250001,8 Z M 10.9375,13.250001 a 1.3125025,1.312501 0 1 0 0,-2.625002 1.3125025,1.312501 0 1 0 0,2.625002 z" /><path d="m 25.298508,20 h -3.58209 C 21.286567,20 21,20.286571 21,20.716427 v 3.582131 c 0,0.429856 0.286567,0.716426 0.716418,0.716426 v 0 c 0.429851,0 0.716418,-0.28657 0.716418,-0.716426 v -2.865705 h 2.865672 c 0.429851,0 0.716418,-0.28657 0.716418,-0.716426 C 26.014926,20.286571 25.728359,20 25.298508,20 Z" /><path d="M 6.298508,20 H 2.716418 C 2.2865673,20 2,20.286571 2,20.716427 c 0,0.429856 0.2865673,0.716426 0.716418,0.716426 H 5.58209 v 2.865705 c 0,0.429856 0.286567,0.716426 0.716418,0.716426 v 0 c 0.429851,0 0.716418,-0.28657 0.716418,-0.716426 V 20.716427 C 7.014926,20.286571 6.728359,20 6.298508,20 Z" /><path d="M 6.298507,3 C 5.868656,3 5.582089,3.28657 5.582089,3.716426 V 6.582131 H 2.716417 C 2.286567,6.582131 2,6.868702 2,7.298557 2,7.728413 2.286567,8.014984 2.716417,8.014984 h 3.58209 c 0.429845,0 0.716412,-0.286571 0.716412,-0.716427 V 3.716426 C 7.014919,3.28657 6.728352,3 6.298507,3 Z" /><path d="m 21.716418,8.014984 h 3.582089 c 0.429851,0 0.716418,-0.286571 0.716418,-0.716427 0,-0.429855 -0.286567,-0.716426 -0.716418,-0.716426 H 22.432836 V 3.716426 C 22.432836,3.28657 22.146269,3 21.716418,3 21.286567,3 21,3.28657 21,3.716426 v 3.582131 c 0,0.429856 0.286567,0.716427 0.716418,0.716427 z" /></svg>`,
+      caption: `<svg viewBox="0 0 24 24" fill="none" class="ql-stroke"><path d="M5 4H19V14H5Z M7 18H17 M9 21H15" stroke-linecap="round" stroke-linejoin="round"/></svg>`,
       link: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 18 18" style="fill: none;stroke: #444;stroke-linecap: round;stroke-linejoin: round;stroke-width: 1.5;"><line x1="7" x2="11" y1="7" y2="11"/><path class="ql-even" d="M8.9,4.577a3.476,3.476,0,0,1,.36,4.679A3.476,3.476,0,0,1,4.577,8.9C3.185,7.5,2.035,6.4,4.217,4.217S7.5,3.185,8.9,4.577Z"/><path class="ql-even" d="M13.423,9.1a3.476,3.476,0,0,0-4.679-.36,3.476,3.476,0,0,0,.36,4.679c1.392,1.392,2.5,2.542,4.679.36S14.815,10.5,13.423,9.1Z"/></svg>`,
+      controls: `<svg viewBox="0 0 24 24" fill="none" class="ql-stroke"><path d="M3 5H21V19H3Z M3 15H21 M7 17H7.01 M10 17H18 M10 8V12L13 10Z" stroke-linecap="round" stroke-linejoin="round"/></svg>`,
+      autoplay: `<svg viewBox="0 0 24 24" fill="none" class="ql-stroke"><path d="M12 3A9 9 0 1 0 21 12 M15 3.5A9 9 0 0 1 20.5 9 M10 8.5V15.5L15.5 12Z" stroke-linecap="round" stroke-linejoin="round"/></svg>`,
+      muted: `<svg viewBox="0 0 24 24" fill="none" class="ql-stroke"><path d="M4 9V15H8L13 19V5L8 9Z M16 9.5L21 14.5 M21 9.5L16 14.5" stroke-linecap="round" stroke-linejoin="round"/></svg>`,
+      loop: `<svg viewBox="0 0 24 24" fill="none" class="ql-stroke"><path d="M17 2L20 5L17 8 M4 11V10A5 5 0 0 1 9 5H20 M7 22L4 19L7 16 M20 13V14A5 5 0 0 1 15 19H4" stroke-linecap="round" stroke-linejoin="round"/></svg>`,
+      poster: `<svg viewBox="0 0 24 24" fill="none" class="ql-stroke"><path d="M4 4H20V20H4Z M4 16L9 11L13 15L15 13L20 18 M15.5 8.5H15.51" stroke-linecap="round" stroke-linejoin="round"/></svg>`,
+      startTime: `<svg viewBox="0 0 24 24" fill="none" class="ql-stroke"><path d="M12 3A9 9 0 1 0 12.01 3 M12 7V12L15 14" stroke-linecap="round" stroke-linejoin="round"/></svg>`,
+      privacy: `<svg viewBox="0 0 24 24" fill="none" class="ql-stroke"><path d="M12 3L19 6V11C19 15.5 16 19 12 21C8 19 5 15.5 5 11V6Z M9.5 12L11.5 14L15 10" stroke-linecap="round" stroke-linejoin="round"/></svg>`,
     },
     tooltips: {
       left: 'Align Left',
@@ -76,8 +161,17 @@ export const DefaultOptions: Options = {
       right: 'Align Right',
       attribute: 'Set Alt/Title',
       resizeMode: 'Use Relative (%)/Absolute (px) Sizing',
+      breakpoint: 'Switch Breakpoint',
       compress: 'Compress Image',
       link: 'Add/Edit Link',
+      caption: 'Add/Remove Caption',
+      controls: 'Show/Hide Controls',
+      autoplay: 'Autoplay On/Off',
+      muted: 'Muted On/Off',
+      loop: 'Loop On/Off',
+      poster: 'Set Poster Image',
+      startTime: 'Set Start Time',
+      privacy: 'Privacy-Enhanced Mode On/Off',
     },
     mainClassName: 'blot-formatter__toolbar',
     mainStyle: {
@@ -113,7 +207,116 @@ export const DefaultOptions: Options = {
       background: 'white',
       verticalAlign: 'top',
     },
+    placement: 'inside-top',
+    dockedHost: null,
+    dockedStyle: {
+      position: 'static',
+      display: 'inline-flex',
+      transform: 'none',
+      verticalAlign: 'middle',
+    },
   },
+  contextMenu: {
+    allowContextMenu: false,
+    hideToolbar: false,
+    longPressDelay: 500,
+    className: 'blot-formatter__context-menu',
+    style: {
+      position: 'absolute',
+      minWidth: '180px',
+      padding: '4px 0',
+      background: 'white',
+      border: '1px solid #999',
+      borderRadius: '4px',
+      boxShadow: '2px 2px 6px rgba(0, 0, 0, 0.25)',
+      color: '#333',
+      fontSize: '14px',
+      zIndex: 9999
+    },
+    itemClassName: 'blot-formatter__context-menu-item',
+    itemStyle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      padding: '4px 12px',
+      cursor: 'pointer',
+      outline: 'none',
+      background: 'white',
+      fontWeight: 'normal'
+    },
+    itemFocusStyle: {
+      background: '#e8e8e8'
+    },
+    itemSelectedStyle: {
+      fontWeight: 'bold'
+    },
+    iconStyle: {
+      display: 'inline-block',
+      flex: '0 0 auto',
+      width: '20px',
+      height: '20px'
+    },
+    labels: {
+      delete: 'Delete'
+    },
+    icons: {
+      delete: `<svg viewBox="0 0 24 24" fill="none" class="ql-stroke"><path d="M4 7H20M10 11V17M14 11V17M5 7L6 19C6 20.1 6.9 21 8 21H16C17.1 21 18 20.1 18 19L19 7M9 7V4C9 3.4 9.4 3 10 3H14C14.6 3 15 3.4 15 4V7" stroke-linecap="round" stroke-linejoin="round"/></svg>`
+    }
+  },
+  inspect: {
+    allowInspect: false,
+    className: 'blot-formatter__inspect',
+    style: {
+      position: 'absolute',
+      boxSizing: 'border-box',
+      border: '1px dashed #444',
+      pointerEvents: 'none'
+    },
+    panelClassName: 'blot-formatter__inspect-panel',
+    panelStyle: {
+      position: 'absolute',
+      top: '100%',
+      left: '0',
+      marginTop: '4px',
+      display: 'grid',
+      gridTemplateColumns: 'auto auto',
+      gap: '2px 12px',
+      minWidth: '180px',
+      maxWidth: '360px',
+      padding: '6px 10px',
+      background: 'white',
+      border: '1px solid #999',
+      borderRadius: '4px',
+      boxShadow: '2px 2px 6px rgba(0, 0, 0, 0.25)',
+      color: '#333',
+      fontSize: '13px',
+      lineHeight: '1.4',
+      overflowWrap: 'anywhere',
+      pointerEvents: 'auto',
+      userSelect: 'text',
+      zIndex: 9999
+    },
+    labelStyle: {
+      fontWeight: 'bold',
+      whiteSpace: 'nowrap'
+    },
+    labels: {
+      size: 'Size',
+      naturalSize: 'Natural size',
+      fileSize: 'File size',
+      alt: 'Alt text',
+      title: 'Title',
+      link: 'Link',
+      caption: 'Caption',
+      duration: 'Duration',
+      playback: 'Playback',
+      poster: 'Poster',
+      provider: 'Provider',
+      startTime: 'Start time',
+      none: '(none)'
+    }
+  },
+
   image: {
     allowAltTitleEdit: true,
     registerImageTitleBlot: false,
@@ -391,13 +594,25 @@ export const DefaultOptions: Options = {
         }
       }
     },
-    autoHeight: true
+    autoHeight: true,
+    allowCaptions: false,
+    captionPlaceholder: 'Caption'
   },
   video: {
     selector: 'iframe.ql-video',
     registerCustomVideoBlot: false,
     registerBackspaceFix: true,
     defaultAspectRatio: '16/9 auto',
-    proxyStyle: {}
+    proxyStyle: {},
+    providers: DEFAULT_IFRAME_PROVIDERS,
+    allowProviderActions: false,
+    startTimeLabel: 'Start Time (m:ss)'
+  },
+  media: {
+    registerMediaBlots: false,
+    videoSelector: 'video.ql-native-video',
+    audioSelector: 'audio.ql-native-audio',
+    allowMediaToggles: true,
+    posterLabel: 'Poster Image URL'
   }
 };
@@ -0,0 +1,124 @@
+import type BlotSpec from './specs/BlotSpec';
+import type { Blot } from './specs/BlotSpec';
+
+/**
+ * Base payload passed to every BlotFormatter lifecycle event handler.
+ *
+ * - `target`: the DOM element being formatted (e.g. `<img>` or `<iframe>`).
+ * - `blot`: the Quill blot associated with the target element.
+ * - `spec`: the `BlotSpec` instance currently handling the target.
+ *
+ * Any of these may be `null` if the formatter has no active target at the time the event is emitted.
+ */
+export interface BlotFormatterEventPayload {
+  target: HTMLElement | null;
+  blot: Blot | null;
+  spec: BlotSpec | null;
+}
+
+/**
+ * Payload for the `resize-start`, `resize` and `resize-end` events.
+ *
+ * - `width`, `height`: the rendered dimensions of the target in pixels.
+ * - `formattedWidth`: the width attribute value applied to the target (e.g. `'300px'` or `'50%'`).
+ *   Empty on `resize-start` before any width has been applied.
+ * - `breakpoint`: the name of the breakpoint being resized (`resize.responsive`), `formattedWidth` is then the
+ *   width for that breakpoint. `null` when the width attribute is resized.
+ */
+export interface ResizeEventPayload extends BlotFormatterEventPayload {
+  width: number;
+  height: number;
+  formattedWidth: string;
+  breakpoint: string | null;
+}
+
+/**
+ * Payload for the `align-change` event.
+ * `alignment` is the name of the applied alignment, or `null` if alignment was cleared.
+ */
+export interface AlignEventPayload extends BlotFormatterEventPayload {
+  alignment: string | null;
+  previous: string | null;
+}
+
+/**
+ * Payload for the `link-change` event.
+ * `url` is the new link url, or `null` if the link was removed.
+ */
+export interface LinkEventPayload extends BlotFormatterEventPayload {
+  url: string | null;
+  previous: string | null;
+}
+
+/**
+ * Payload for the `attribute-change` event.
+ * `title` is `null` if the title attribute was removed.
+ */
+export interface AttributeEventPayload extends BlotFormatterEventPayload {
+  alt: string;
+  title: string | null;
+}
+
+/**
+ * Payload for the `compress` event.
+ * Sizes are the byte lengths of the original and compressed image data urls.
+ */
+export interface CompressEventPayload extends BlotFormatterEventPayload {
+  originalSize: number;
+  compressedSize: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Payload for the `caption-change` event.
+ * `caption` is the new caption text, or `null` if the caption was removed. `previous` is the caption text
+ * before the change, or `null` if the image had no caption.
+ */
+export interface CaptionEventPayload extends BlotFormatterEventPayload {
+  caption: string | null;
+  previous: string | null;
+}
+
+/**
+ * Payload for the `media-change` event.
+ * `attribute` is the media attribute changed (`controls`, `autoplay`, `muted`, `loop` or `poster`).
+ * `value` is `true` (or the poster url) if the attribute was set, or `null` if it was removed.
+ */
+export interface MediaEventPayload extends BlotFormatterEventPayload {
+  attribute: string;
+  value: string | boolean | null;
+}
+
+/**
+ * Payload for the `source-change` event.
+ * `src` is the new iframe source (e.g. with a start time or privacy-enhanced domain), `previous` the source before the change.
+ */
+export interface SourceEventPayload extends BlotFormatterEventPayload {
+  src: string;
+  previous: string;
+}
+
+/**
+ * Maps each BlotFormatter lifecycle event name to the payload type passed to its handlers.
+ */
+export interface BlotFormatterEventMap {
+  'show': BlotFormatterEventPayload;
+  'hide': BlotFormatterEventPayload;
+  'resize-start': ResizeEventPayload;
+  'resize': ResizeEventPayload;
+  'resize-end': ResizeEventPayload;
+  'align-change': AlignEventPayload;
+  'delete': BlotFormatterEventPayload;
+  'link-change': LinkEventPayload;
+  'attribute-change': AttributeEventPayload;
+  'compress': CompressEventPayload;
+  'caption-change': CaptionEventPayload;
+  'media-change': MediaEventPayload;
+  'source-change': SourceEventPayload;
+}
+
+export type BlotFormatterEventName = keyof BlotFormatterEventMap;
+
+export type BlotFormatterEventHandler<K extends BlotFormatterEventName> =
+  (payload: BlotFormatterEventMap[K]) => void;
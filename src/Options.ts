@@ -1,4 +1,7 @@
+import Action from './actions/Action';
 import BlotSpec from './specs/BlotSpec';
+import type BlotFormatter from './BlotFormatter';
+import type { Blot } from './specs/BlotSpec';
 import { DefaultOptions } from './DefaultOptions';
 
 type Constructor<T> = new (...args: any[]) => T;
@@ -30,8 +33,91 @@ export type ResizeOptions = {
   // if allowResizeModeChange=false, any resized blot will use this
   // if allowResizeModeChange=true, only previously unsized blots will use this
   useRelativeSize: boolean;
-  // minimum width a blot can be resized to (px)
+  // minimum width a blot can be resized to (px), also the minimum height with free resize
   minimumWidthPx: number;
+  // show edge handles that change only the width or only the height of images and iframes (free resize)
+  // extends the video blot with the aspectRatio format so that the aspect ratio of freely resized iframes is kept in the delta
+  allowFreeResize: boolean;
+  // modifier key that switches corner handles to free resize while held (requires allowFreeResize)
+  freeResizeModifier: 'altKey' | 'ctrlKey' | 'metaKey' | 'shiftKey';
+  // maximum width, px (number or 'NNpx') or % of the editor width ('NN%'), null for no limit
+  maxWidth: SizeConstraint | null;
+  // minimum height, px or % of the editor width, null for no limit
+  minHeight: SizeConstraint | null;
+  // maximum height, px or % of the editor width, null for no limit
+  maxHeight: SizeConstraint | null;
+  // size constraints per spec name (as used in the actions option), replacing the constraints above
+  specConstraints: Record<string, SizeConstraints>;
+  // snap points and alignment guides used while dragging a resize handle
+  snap: ResizeSnapOptions;
+  // widths per breakpoint for responsive output, with a toolbar button to switch and preview the breakpoint
+  responsive: ResponsiveOptions;
+  // double click the overlay to edit the width, height and unit (px/%) in the size info box
+  allowSizeInput: boolean;
+  // resize with ArrowUp/ArrowDown while the overlay is open, with Alt to change the height instead
+  // (Alt requires allowFreeResize and is ignored otherwise, ArrowLeft/ArrowRight are left for caret placement)
+  allowKeyboardResize: boolean;
+  // keyboard resize step (px or % as per the resize mode)
+  keyboardStep: number;
+  // keyboard resize step with Shift held
+  keyboardShiftStep: number;
+  // style applied to the size input width, height and unit controls, or null to prevent styles
+  sizeInputStyle?: { [key: string]: any } | null | undefined;
+  // accessible labels of the size input controls
+  sizeInputLabels: {
+    width: string;
+    height: string;
+    unit: string;
+  };
+};
+
+// a size in px (number or 'NNpx') or % of the editor width ('NN%')
+export type SizeConstraint = number | string;
+
+export type SizeConstraints = {
+  minWidth?: SizeConstraint | null;
+  maxWidth?: SizeConstraint | null;
+  minHeight?: SizeConstraint | null;
+  maxHeight?: SizeConstraint | null;
+};
+
+export type ResizeSnapOptions = {
+  // pull the width to the nearest snap point within thresholdPx while dragging a resize handle
+  enabled: boolean;
+  // snap points as % of the editor width
+  relativeSizes: number[];
+  // snap points as fixed widths (px)
+  pixelSizes: number[];
+  // snap to multiples of this width (px), 0 to disable
+  pixelStep: number;
+  // distance (px) from a snap point within which the width is pulled to it
+  thresholdPx: number;
+  // show guide lines when the width matches a neighbouring blot or the text column (independent of enabled)
+  showGuides: boolean;
+  // elements in the editor whose widths are used as snap points and for guides
+  neighbourSelector: string;
+  // class name applied to the guide lines
+  guideClassName: string;
+  // style applied to the guide lines, or null to prevent styles
+  guideStyle?: { [key: string]: any } | null | undefined;
+};
+
+export type ResponsiveBreakpoint = {
+  // name used in the responsiveWidths format, letters, numbers, '-' and '_' only (e.g. 'tablet')
+  name: string;
+  // viewport width (px) from which the breakpoint applies
+  minWidthPx: number;
+  // label shown in the size info box while the breakpoint is active, the name if not set
+  label?: string;
+};
+
+export type ResponsiveOptions = {
+  // add the breakpoint button to the resize toolbar, store a width per breakpoint in the responsiveWidths format
+  enabled: boolean;
+  // breakpoints from the smallest viewport up (mobile first), the width attribute is used below the first breakpoint
+  breakpoints: ResponsiveBreakpoint[];
+  // label shown in the size info box for the base width (width attribute)
+  baseLabel: string;
 };
 
 export type AlignOptions = {
@@ -46,6 +132,103 @@ export type DeleteOptions = {
   allowKeyboardDelete: boolean;
 }
 
+export type KeyboardSelectBinding = {
+  // key name as given by KeyboardEvent.key (e.g. 'Enter')
+  key: string;
+  // modifier keys required - any modifier not set to true must not be pressed
+  altKey?: boolean;
+  ctrlKey?: boolean;
+  metaKey?: boolean;
+  shiftKey?: boolean;
+}
+
+export type KeyboardOptions = {
+  // allow selecting the embed next to the caret with selectBinding
+  allowKeyboardSelect: boolean;
+  // key combination that selects the embed next to the caret and opens the overlay
+  selectBinding: KeyboardSelectBinding;
+}
+
+export type MultiSelectOptions = {
+  // allow selecting additional blots with shift+click while the overlay is active (opt-in, default false)
+  // align, resize and delete actions are then applied to every selected blot
+  allowMultiSelect: boolean;
+  // class name applied to the overlay of each additional selected blot
+  overlayClassName: string;
+  // style applied to the overlay of each additional selected blot, or null to prevent styles
+  overlayStyle?: { [key: string]: any } | null | undefined;
+}
+
+export type ContextMenuOptions = {
+  // open a menu of the toolbar commands when an embed is right-clicked or long-pressed
+  allowContextMenu: boolean;
+  // hide the overlay toolbar so that commands are only available from the context menu
+  hideToolbar: boolean;
+  // touch duration (ms) before a long-press opens the menu
+  longPressDelay: number;
+  // class name applied to the menu element
+  className: string;
+  // style applied to the menu element, or null to prevent styles
+  style?: { [key: string]: any } | null | undefined;
+  // class name applied to each menu item
+  itemClassName: string;
+  // style applied to each menu item, or null to prevent styles
+  itemStyle?: { [key: string]: any } | null | undefined;
+  // style applied to the focused menu item, or null to prevent styles
+  itemFocusStyle?: { [key: string]: any } | null | undefined;
+  // style applied to menu items whose toolbar button is selected, or null to prevent styles
+  itemSelectedStyle?: { [key: string]: any } | null | undefined;
+  // style applied to each menu item icon, or null to prevent styles
+  iconStyle?: { [key: string]: any } | null | undefined;
+  // labels for menu items that have no toolbar button
+  labels: {
+    delete: string;
+  };
+  // icons for menu items that have no toolbar button
+  icons: {
+    delete: string;
+  };
+}
+
+export type InspectOptions = {
+  // show a read-only info panel when an embed is clicked while the editor is disabled (ql-disabled)
+  allowInspect: boolean;
+  // class name applied to the outline drawn over the inspected embed
+  className: string;
+  // style applied to the outline element, or null to prevent styles
+  style?: { [key: string]: any } | null | undefined;
+  // class name applied to the info panel
+  panelClassName: string;
+  // style applied to the info panel, or null to prevent styles
+  panelStyle?: { [key: string]: any } | null | undefined;
+  // style applied to each label in the info panel, or null to prevent styles
+  labelStyle?: { [key: string]: any } | null | undefined;
+  // labels for the info panel rows
+  labels: {
+    size: string;
+    naturalSize: string;
+    fileSize: string;
+    alt: string;
+    title: string;
+    link: string;
+    caption: string;
+    duration: string;
+    playback: string;
+    poster: string;
+    provider: string;
+    startTime: string;
+    // shown for empty values
+    none: string;
+  };
+}
+
+// where the toolbar is rendered relative to the overlay
+// - 'inside-top': inside the overlay along its top edge, positioned by mainStyle
+// - 'above' / 'below': outside the overlay, immediately above or below it
+// - 'auto': above the overlay if there is space in the editor, otherwise below, otherwise inside-top
+// - 'docked': rendered into the dockedHost element instead of the overlay
+export type ToolbarPlacement = 'inside-top' | 'above' | 'below' | 'auto' | 'docked';
+
 export type ToolbarOptions = {
   // toolbar icons - key name must match toolbar button name or alignment name if relevant 
   icons: Record<string, string>,
@@ -65,6 +248,38 @@ export type ToolbarOptions = {
   buttonSelectedClassName: string,
   // style applied to the svgs in the buttons
   svgStyle?: { [key: string]: any } | null | undefined,
+  // additional buttons declared without an Action, added after the action buttons
+  customButtons?: Array<CustomToolbarButtonOptions>,
+  // where the toolbar is rendered relative to the overlay
+  placement: ToolbarPlacement,
+  // element (or css selector) the toolbar is rendered into with 'docked' placement
+  dockedHost?: HTMLElement | string | null,
+  // style applied to the root toolbar element with 'docked' placement, or null to prevent styles
+  dockedStyle?: { [key: string]: any } | null | undefined,
+};
+
+// context passed to custom toolbar button callbacks
+export type ToolbarButtonContext = {
+  formatter: BlotFormatter;
+  // the element being formatted
+  target: HTMLElement;
+  // the blot of the target element
+  blot: Blot | null;
+};
+
+export type CustomToolbarButtonOptions = {
+  // unique button name, used for the data-action attribute and toolbar.buttons key
+  name: string;
+  // inner html for the button (svg recommended)
+  icon: string;
+  // button tooltip and accessible label
+  tooltip?: string;
+  // called when the button is clicked or activated from the keyboard
+  onClick: (context: ToolbarButtonContext) => void;
+  // return true to show the button as selected
+  isActive?: (context: ToolbarButtonContext) => boolean;
+  // return false to hide the button for the current target
+  isVisible?: (context: ToolbarButtonContext) => boolean;
 };
 
 type AltTitleModalOptions = {
@@ -204,6 +419,10 @@ export type ImageOptions = {
   linkOptions: LinkOptions;
   // always use 'auto' for image height (when resizing absolute only)
   autoHeight: boolean;
+  // register the figure blot and show the caption button to add/remove an editable <figcaption>
+  allowCaptions: boolean;
+  // text shown in an empty caption while editing
+  captionPlaceholder: string;
 }
 
 export type VideoOptions = {
@@ -217,6 +436,42 @@ export type VideoOptions = {
   defaultAspectRatio: string;
   // additional styles applied to proxy image, or null to prevent styles
   proxyStyle: { [key: string]: any };
+  // iframe providers recognised from the iframe src, the first match is used
+  providers: IframeProvider[];
+  // show the start time and privacy-enhanced domain buttons for providers that support them (opt-in, default false)
+  allowProviderActions: boolean;
+  // label for the start time input
+  startTimeLabel: string;
+}
+
+// an iframe provider (YouTube, Vimeo etc.) recognised from the iframe src
+export type IframeProvider = {
+  // provider name, shown in the inspect panel
+  name: string;
+  // tested against the iframe src
+  pattern: RegExp;
+  // css aspect-ratio applied to new iframes and used when resizing iframes without an aspect ratio
+  aspectRatio?: string;
+  // minimum and maximum width (px) the iframe can be resized to
+  minWidthPx?: number;
+  maxWidthPx?: number;
+  // url parameter holding the start time in seconds, in the url hash if hash is true, with optional unit suffix
+  startTime?: { param: string; hash?: boolean; suffix?: string };
+  // host names of the standard and privacy-enhanced (no cookie) players
+  privacyDomain?: { standard: string; enhanced: string };
+}
+
+export type MediaOptions = {
+  // register the native <video> and <audio> blots (formats/nativeVideo and formats/nativeAudio)
+  registerMediaBlots: boolean;
+  // query selector string to select native video blots (NativeVideoSpec)
+  videoSelector: string;
+  // query selector string to select native audio blots (NativeAudioSpec)
+  audioSelector: string;
+  // show toggle buttons for controls, autoplay, muted and loop, and the poster button for videos
+  allowMediaToggles: boolean;
+  // label for the poster url input (the modal uses image.altTitleModalOptions styles and icons)
+  posterLabel: string;
 }
 
 export type TooltipOptions = {
@@ -224,16 +479,56 @@ export type TooltipOptions = {
   containTooltipPosition: boolean;
 }
 
+// how the resize action applies a new width to an embed
+// - 'wrapper': width attribute on the element, css width on the aligned image wrapper or figure (images)
+// - 'aspect-ratio': width attribute and --resize-width on the element, height from its css aspect-ratio (iframes)
+// - 'width': width attribute and --resize-width on the element, height auto (native media)
+// - 'none': the embed is not resizable
+export type EmbedSizing = 'wrapper' | 'aspect-ratio' | 'width' | 'none';
+
+// an embed type supported by a GenericEmbedSpec
+export type EmbedSpecOptions = {
+  // unique name for the embed type, used as the spec name in the actions option
+  name: string;
+  // query selector string to select the embed elements, the blot's tag and class name are used if not set
+  selector?: string;
+  // blot name registered with Quill (e.g. 'chart'), used to find the blot for the selected element
+  blotName?: string;
+  // 'clickable': selected by clicking the element
+  // 'proxy': selected through a transparent proxy image, for embeds that capture pointer events (e.g. iframes)
+  interaction: 'clickable' | 'proxy';
+  // actions created for the embed in toolbar order, the default actions are used if not set
+  actions?: Array<ActionConfig>;
+  // how the embed is resized, default 'aspect-ratio' with 'proxy' interaction, otherwise 'width'
+  sizing?: EmbedSizing;
+}
+
+// names of the built-in actions that can be used in the actions option
+export type ActionName = 'align' | 'resize' | 'delete' | 'caret' | 'link' | 'attribute' | 'compress' | 'caption' | 'media' | 'provider';
+
+// a built-in action name, or a custom Action class
+export type ActionConfig = ActionName | Constructor<Action>;
+
 export type Options = {
   // the BlotSpecs supported
   specs: Array<Constructor<BlotSpec>>,
+  // custom embed types supported without a spec class, each handled by a GenericEmbedSpec
+  embeds: Array<EmbedSpecOptions>,
+  // actions created for each spec in toolbar order, keyed by the spec's static specName
+  // specs without an entry use the actions returned by their getDefaultActions()
+  actions: Record<string, Array<ActionConfig>>,
   overlay: OverlayOptions,
   align: AlignOptions,
   resize: ResizeOptions,
   delete: DeleteOptions,
+  multiSelect: MultiSelectOptions,
+  keyboard: KeyboardOptions,
   toolbar: ToolbarOptions,
+  contextMenu: ContextMenuOptions,
+  inspect: InspectOptions,
   image: ImageOptions,
   video: VideoOptions,
+  media: MediaOptions,
   tooltip?: TooltipOptions,
   debug?: boolean, // enable debug logging
 };
@@ -1,6 +1,17 @@
 import BlotFormatter from '../BlotFormatter';
 import ToolbarButton from './toolbar/ToolbarButton';
 
+/**
+ * A row of read-only information shown in the inspect panel for a disabled editor.
+ *
+ * - `label`: The row label (e.g. `Alt text`).
+ * - `value`: The value to display, as plain text.
+ */
+export type InspectInfo = {
+  label: string;
+  value: string;
+};
+
 /**
  * Represents a base class for actions used within the BlotFormatter.
  * 
@@ -11,6 +22,7 @@ import ToolbarButton from './toolbar/ToolbarButton';
  * @remarks
  * - Each action holds a reference to the parent `BlotFormatter` instance.
  * - Actions can define their own toolbar buttons by populating the `toolbarButtons` array.
+ * - Actions can describe the target for the read-only inspect panel by overriding `getInspectInfo()`.
  * - Debug logging is available if the formatter's options enable it.
  * 
  * @example
@@ -59,4 +71,16 @@ export default class Action {
    */
   onUpdate = (): void => {}
 
+  /**
+   * Returns read-only information about the target element for the inspect panel, shown when an embed is
+   * clicked in a disabled editor with `inspect.allowInspect` set.
+   * Called without `onCreate()`, so implementations should read from the element passed rather than state set
+   * on creation, and must not modify the document.
+   * Override this method to describe the attributes the action edits.
+   *
+   * @param target - The embed element being inspected.
+   * @returns {InspectInfo[]} The rows to display, empty by default.
+   */
+  getInspectInfo = (target: HTMLElement): InspectInfo[] => []
+
 }
@@ -1,4 +1,5 @@
 import Action from './Action';
+import type { InspectInfo } from './Action';
 import BlotFormatter from '../BlotFormatter';
 import ToolbarButton from './toolbar/ToolbarButton';
 import type { Blot } from '../specs/BlotSpec';
@@ -54,6 +55,20 @@ export default class AttributeAction extends Action {
         this.modal.element.remove();
     }
 
+    /**
+     * Returns the `alt` and `title` attributes of the target element for the inspect panel.
+     *
+     * @param target - The embed element being inspected.
+     * @returns {InspectInfo[]} The `alt` and `title` rows, showing `inspect.labels.none` for missing attributes.
+     */
+    getInspectInfo = (target: HTMLElement): InspectInfo[] => {
+        const labels = this.formatter.options.inspect.labels;
+        return [
+            { label: labels.alt, value: target.getAttribute('alt') || labels.none },
+            { label: labels.title, value: target.getAttribute('title') || labels.none }
+        ];
+    }
+
     /**
      * Event handler for click events that triggers the display of the Alt Title modal.
      * 
@@ -70,7 +85,7 @@ export default class AttributeAction extends Action {
      * 
      * If a target element is present, this method sets the modal's input fields to the current
      * 'alt' and 'title' attribute values of the target element (or empty strings if not set),
-     * and appends the modal element to the document body.
+     * and appends the modal element to the formatter modal host (the document body, or the editor's shadow root).
      *
      * @private
      */
@@ -78,7 +93,7 @@ export default class AttributeAction extends Action {
         if (this.targetElement) {
             this.modal.altInput.value = this.targetElement.getAttribute('alt') || '';
             this.modal.titleInput.value = this.targetElement.getAttribute('title') || '';
-            document.body.append(this.modal.element);
+            this.formatter.modalHost.append(this.modal.element);
             if (this.formatter.options.debug) {
                 console.debug('Showing Alt Title modal for:', this.targetElement);
             }
@@ -101,41 +116,58 @@ export default class AttributeAction extends Action {
      * Updates the `alt` and `title` attributes of the target image element based on user input.
      * If a title is provided, it sets the `title` attribute; otherwise, it removes it.
      * Additionally, if an image alignment format is applied, it updates the alignment format
-     * to include the new title value.
+     * to include the new title value. Emits the `attribute-change` event once applied.
+     *
+     * The attributes are applied as Quill formats with source `user` so that one submit of the form
+     * is recorded as a single undo step. Where the registered image blot cannot represent the value
+     * (empty `alt`, or `title` without `image.registerImageTitleBlot`), the attribute is set directly instead.
      *
      * @private
      */
     private _setAltTitle = (): void => {
         if (this.targetElement) {
+            const targetElement: HTMLElement = this.targetElement;
             const alt: string = typeof this.modal.altInput.value === "string" 
                 ? this.modal.altInput.value 
                 : "";
             const title: string = this.modal.titleInput.value;
-            this.targetElement.setAttribute('alt', alt);
-            if (title) {
-                this.targetElement.setAttribute('title', title);
-            } else {
-                this.targetElement.removeAttribute('title');
-            }
             if (this.formatter.options.debug) {
-                console.debug('Setting alt:', alt, 'title:', title, 'on target element:', this.targetElement);
+                console.debug('Setting alt:', alt, 'title:', title, 'on target element:', targetElement);
             }
-            // Update align format if applied
-            const imageAlignment = this.currentBlot?.parent?.formats()[this.formatter.ImageAlign.attrName]?.align;
-            if (this.currentBlot && imageAlignment) {
-                if (this.formatter.options.debug) {
-                    console.debug('Updating title of image with alignment:', imageAlignment);
+            this.formatter.withHistoryStep(() => {
+                this.formatter.formatBlot(targetElement, { alt: alt, title: title || null });
+                // native image blot removes an empty alt and has no title format - fall back to setting the attribute
+                if (targetElement.getAttribute('alt') !== alt) {
+                    targetElement.setAttribute('alt', alt);
                 }
-                // Reapply the existing alignment format if it exists
-                this.currentBlot.parent?.format(this.formatter.ImageAlign.attrName, false)
-                this.currentBlot.format(
-                    this.formatter.ImageAlign.attrName,
-                    {
-                        align: imageAlignment,
-                        title: title
+                if ((targetElement.getAttribute('title') || '') !== title) {
+                    if (title) {
+                        targetElement.setAttribute('title', title);
+                    } else {
+                        targetElement.removeAttribute('title');
                     }
-                );
-            }
+                }
+                // Update align format if applied
+                const imageAlignment = this.currentBlot?.parent?.formats()[this.formatter.ImageAlign.attrName]?.align;
+                if (this.currentBlot && imageAlignment) {
+                    if (this.formatter.options.debug) {
+                        console.debug('Updating title of image with alignment:', imageAlignment);
+                    }
+                    // Reapply the existing alignment format if it exists
+                    this.formatter.formatBlot(targetElement, { [this.formatter.ImageAlign.attrName]: false });
+                    this.formatter.formatBlot(targetElement, {
+                        [this.formatter.ImageAlign.attrName]: {
+                            align: imageAlignment,
+                            title: title
+                        }
+                    });
+                }
+            });
+            this.formatter.emit('attribute-change', {
+                ...this.formatter.getEventPayload(),
+                alt: alt,
+                title: title || null
+            });
         }
     }
 
@@ -0,0 +1,210 @@
+import Action from './Action';
+import BlotFormatter from '../BlotFormatter';
+import ToolbarButton from './toolbar/ToolbarButton';
+import type { Blot } from '../specs/BlotSpec';
+import type { InspectInfo } from './Action';
+import { RESPONSIVE_WIDTHS_ATTRIBUTE } from '../responsive/ResponsiveWidths';
+
+/**
+ * Adds or removes a caption on the selected image.
+ *
+ * Adding a caption replaces the image with a figure blot (`<figure><img><figcaption>`, see `createFigureBlotClass`)
+ * and starts editing the caption in place. Removing the caption replaces the figure with an image blot on its own line.
+ * The image attributes, link and alignment are kept in both directions.
+ *
+ * @remarks
+ * - Requires the figure blot, registered by `BlotFormatter` when `image.allowCaptions` is set.
+ * - The toolbar button is shown as selected when the image has a caption.
+ * - Each change is a single undo step and emits the `caption-change` event.
+ *
+ * @extends Action
+ */
+export default class CaptionAction extends Action {
+    targetElement: HTMLElement | null | undefined = null;
+    currentBlot: Blot | null | undefined = null;
+    toolbarButton: ToolbarButton;
+
+    constructor(formatter: BlotFormatter) {
+        super(formatter);
+        this.toolbarButton = new ToolbarButton(
+            'caption',
+            this._onClickHandler,
+            this.formatter.options.toolbar
+        );
+        this.toolbarButton.preselect = () => {
+            return this.isCaptioned();
+        };
+        this.toolbarButtons = [this.toolbarButton];
+    }
+
+    /**
+     * Initializes the target element and current blot (the image, or the figure of a captioned image)
+     * from the current formatter specification.
+     */
+    onCreate = (): void => {
+        this.targetElement = this.formatter.currentSpec?.getTargetElement();
+        this.currentBlot = this.formatter.currentSpec?.getTargetBlot();
+    }
+
+    /**
+     * Clears the target element and blot references.
+     */
+    onDestroy = (): void => {
+        this.targetElement = null;
+        this.currentBlot = null;
+    }
+
+    /**
+     * Determines whether the current blot is a captioned image (figure blot).
+     *
+     * @returns {boolean} `true` if the current blot is a figure.
+     */
+    isCaptioned = (): boolean => {
+        return this.currentBlot?.statics?.blotName === 'figure';
+    }
+
+    /**
+     * Returns the caption of the target image for the inspect panel.
+     *
+     * @param target - The image element being inspected.
+     * @returns {InspectInfo[]} A single `caption` row, showing `inspect.labels.none` if the image has no caption.
+     */
+    getInspectInfo = (target: HTMLElement): InspectInfo[] => {
+        const labels = this.formatter.options.inspect.labels;
+        const caption = target.closest('figure')?.querySelector('figcaption')?.textContent?.trim();
+        return [{ label: labels.caption, value: caption || labels.none }];
+    }
+
+    /**
+     * Toggles the caption of the current image.
+     */
+    private _onClickHandler: EventListener = (): void => {
+        if (this.isCaptioned()) {
+            this.removeCaption();
+        } else {
+            this.addCaption();
+        }
+    }
+
+    /**
+     * Replaces the current image with a figure blot and starts editing the caption.
+     * If the image is the only content on its line, the line is replaced, otherwise the line is split around the figure.
+     * The formatter is hidden so that the caption receives keyboard input.
+     *
+     * @param caption - The initial caption text.
+     */
+    addCaption = (caption: string = ''): void => {
+        const blot = this.currentBlot;
+        const image = this.targetElement;
+        if (!blot || !(image instanceof HTMLImageElement) || this.isCaptioned()) return;
+        const quill = this.formatter.quill;
+        if (!quill.scroll.query('figure')) {
+            console.warn('CaptionAction: figure blot not registered, set image.allowCaptions to register it');
+            return;
+        }
+        const index: number = quill.getIndex(blot);
+        // replace the line if the image is its only content, unless it is the last line (keeps a line after the figure)
+        const [line, offset] = quill.getLine(index);
+        const length = (offset === 0 && line?.length() === 2 && index + 2 < quill.getLength()) ? 2 : 1;
+        const attributes = this._getImageAttributes(image, quill.getFormat(index, 1).link);
+        const align = image.dataset.blotAlign;
+        if (align) {
+            attributes[this.formatter.IframeAlign.attrName] = align;
+        }
+        const Delta = this.formatter.Quill.import('delta');
+        this.formatter.withHistoryStep(() => {
+            quill.updateContents(
+                new Delta()
+                    .retain(index)
+                    .delete(length)
+                    .insert({ figure: { src: image.getAttribute('src') ?? '', caption: caption } }, attributes),
+                this.formatter.Quill.sources.USER
+            );
+        });
+        const [figure] = quill.getLine(index);
+        if (this.debug) {
+            console.debug('CaptionAction added caption, figure:', figure);
+        }
+        this.formatter.emit('caption-change', {
+            ...this.formatter.getEventPayload(),
+            target: figure?.domNode?.querySelector('img') ?? null,
+            blot: figure ?? null,
+            caption: caption,
+            previous: null
+        });
+        this.formatter.hide();
+        figure?.editCaption?.();
+    }
+
+    /**
+     * Replaces the current figure blot with an image blot on its own line and selects the image.
+     */
+    removeCaption = (): void => {
+        const blot = this.currentBlot;
+        const image = this.targetElement;
+        if (!blot || !(image instanceof HTMLImageElement) || !this.isCaptioned()) return;
+        const quill = this.formatter.quill;
+        const index: number = quill.getIndex(blot);
+        const previous: string = blot.domNode.querySelector('figcaption')?.textContent?.trim() ?? '';
+        const attributes = this._getImageAttributes(image, blot.formats().link);
+        const align = blot.domNode.dataset.blotAlign;
+        if (align) {
+            attributes[this.formatter.ImageAlign.attrName] = {
+                align: align,
+                title: image.getAttribute('title') || ''
+            };
+        }
+        const Delta = this.formatter.Quill.import('delta');
+        this.formatter.withHistoryStep(() => {
+            quill.updateContents(
+                new Delta()
+                    .retain(index)
+                    .delete(1)
+                    .insert({ image: image.getAttribute('src') ?? '' }, attributes)
+                    .insert('\n'),
+                this.formatter.Quill.sources.USER
+            );
+        });
+        const imageBlot = quill.getLeaf(index)[0];
+        if (this.debug) {
+            console.debug('CaptionAction removed caption, image:', imageBlot);
+        }
+        this.formatter.emit('caption-change', {
+            ...this.formatter.getEventPayload(),
+            target: imageBlot?.domNode ?? null,
+            blot: imageBlot ?? null,
+            caption: null,
+            previous: previous
+        });
+        if (imageBlot?.domNode instanceof HTMLImageElement) {
+            this.formatter.select(imageBlot.domNode);
+        } else {
+            this.formatter.hide();
+        }
+    }
+
+    /**
+     * Collects the image attributes, breakpoint widths and link to carry over when converting between image and figure blots.
+     *
+     * @param image - The image element.
+     * @param link - The link URL applied to the image, if any.
+     * @returns The formats to apply to the new blot.
+     */
+    private _getImageAttributes = (image: HTMLImageElement, link: string | null | undefined): Record<string, any> => {
+        const attributes: Record<string, any> = {};
+        ['alt', 'title', 'width', 'height'].forEach(name => {
+            const value = image.getAttribute(name);
+            if (value !== null) {
+                attributes[name] = value;
+            }
+        });
+        const responsiveWidths = image.getAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE);
+        if (responsiveWidths) {
+            attributes.responsiveWidths = responsiveWidths;
+        }
+        if (link) {
+            attributes.link = link;
+        }
+        return attributes;
+    }
+}
@@ -11,6 +11,7 @@ import { Blot } from '../specs/BlotSpec';
  * @remarks
  * - Integrates with the Quill editor instance and its formatting specifications.
  * - Handles keyboard events to facilitate intuitive caret movement for users.
+ * - Escape closes the overlay and returns the caret to the position after the blot.
  * - Ensures proper event listener management to prevent memory leaks.
  *
  * @public
@@ -105,42 +106,50 @@ export default class CaretAction extends Action {
   /**
    * Initializes event listeners for the CaretAction.
    *
-   * Adds a 'keyup' event listener to the document and an 'input' event listener
+   * Adds a 'keyup' event listener to the formatter root node (document or shadow root) and an 'input' event listener
    * to the Quill editor's root element. Both listeners trigger the `onKeyUp` handler.
+   * Adds a 'keydown' event listener to the formatter root node to handle Escape.
    *
    * @remarks
    * This method should be called when the action is created to ensure proper
    * caret handling and formatting updates in response to user input.
    */
   onCreate = (): void => {
-    document.addEventListener('keyup', this.onKeyUp);
+    this.formatter.rootNode.addEventListener('keyup', this.onKeyUp as EventListener);
+    this.formatter.rootNode.addEventListener('keydown', this.onKeyDown as EventListener);
     this.formatter.quill.root.addEventListener('input', this.onKeyUp);
   }
 
   /**
    * Cleans up event listeners attached by this action.
    *
-   * Removes the 'keyup' event listener from the document and the 'input' event listener
+   * Removes the 'keyup' and 'keydown' event listeners from the formatter root node and the 'input' event listener
    * from the Quill editor's root element to prevent memory leaks and unintended behavior
    * after the action is destroyed.
    */
   onDestroy = (): void => {
-    document.removeEventListener('keyup', this.onKeyUp);
+    this.formatter.rootNode.removeEventListener('keyup', this.onKeyUp as EventListener);
+    this.formatter.rootNode.removeEventListener('keydown', this.onKeyDown as EventListener);
     this.formatter.quill.root.removeEventListener('input', this.onKeyUp);
   }
 
   /**
    * Handles the keyup event for caret navigation around a target blot in the editor.
    *
-   * - If a modal is open or there is no current formatting specification, the handler exits early.
+   * - If a modal is open, there is no current formatting specification or the key was pressed
+   *   within the overlay or toolbar (e.g. navigating toolbar buttons, including a docked toolbar), the handler exits early.
    * - If the left arrow key is pressed, places the caret before the target blot and hides the formatter UI.
    * - If the right arrow key is pressed, places the caret after the target blot and hides the formatter UI.
    *
    * @param e - The keyboard event triggered by the user's keyup action.
    */
   onKeyUp = (e: KeyboardEvent) => {
-    const modalOpen: boolean = !!document.querySelector('[data-blot-formatter-modal]')
-    if (!this.formatter.currentSpec || modalOpen) {
+    if (
+      !this.formatter.currentSpec ||
+      this.formatter.modalOpen ||
+      this.formatter.overlay.contains(e.target as Node) ||
+      this.formatter.toolbar.element.contains(e.target as Node)
+    ) {
       return;
     }
     const targetBlot = this.formatter.currentSpec.getTargetBlot();
@@ -158,4 +167,27 @@ export default class CaretAction extends Action {
       this.formatter.hide();
     }
   };
+
+  /**
+   * Handles the keydown event for Escape: closes the overlay and places the caret after the target blot.
+   *
+   * Handled on keydown rather than keyup so that an Escape used to close an open modal
+   * does not also close the overlay. Exits early if a modal is open or there is no current spec.
+   *
+   * @param e - The keyboard event triggered by the user's keydown action.
+   */
+  onKeyDown = (e: KeyboardEvent) => {
+    if (e.key !== 'Escape' || !this.formatter.currentSpec) {
+      return;
+    }
+    if (this.formatter.modalOpen) {
+      return;
+    }
+    const targetBlot = this.formatter.currentSpec.getTargetBlot();
+    if (targetBlot) {
+      e.preventDefault();
+      CaretAction.placeCaretAfterBlot(this.formatter.quill, targetBlot, this.debug);
+    }
+    this.formatter.hide();
+  };
 }
@@ -145,7 +145,7 @@ export default class CompressAction extends Action {
             if (this.imageDetails.canCompress) {
                 this.modal.moreInfoButton.style.visibility = 'visible';
                 this.modal.moreInfoText.style.display = 'none';
-                document.body.append(this.modal.element);
+                this.formatter.modalHost.append(this.modal.element);
             } else {
                 this._displayFeedback(this.options.text.nothingToDo);
             }
@@ -217,12 +217,13 @@ export default class CompressAction extends Action {
 
     /**
      * Calculates the approximate byte size of an image from its data URL.
+     * Also used by `ImageSpec` to show the file size in the inspect panel.
      *
      * @param img - The HTMLImageElement whose size is to be determined.
      * @returns The size of the image in bytes if the `src` attribute is a valid base64-encoded data URL,
      *          or `null` if the `src` is not a valid image data URL or does not contain base64 data.
      */
-    private _getImageSize = (img: HTMLImageElement): number | null => {
+    static getImageSize = (img: HTMLImageElement): number | null => {
         const dataUrl = img.getAttribute('src');
         if (!dataUrl || !dataUrl.startsWith('data:image/')) {
             // Return null if the src is not a valid data URL or doesn't contain image data
@@ -272,7 +273,7 @@ export default class CompressAction extends Action {
             naturalHeight: img.naturalHeight,
             targetWidth: width,
             targetHeight: height,
-            size: this._getImageSize(img) as number,
+            size: CompressAction.getImageSize(img) as number,
             canCompress: !!(width && height && (width < img.naturalWidth) && CompressAction.isEligibleForCompression(img, this.debug))
         }
         if (this.debug) {
@@ -322,10 +323,19 @@ export default class CompressAction extends Action {
                 const resizedSize = new TextEncoder().encode(resizedDataUrl).length;
                 // Check if the resized image is smaller than the original
                 if (resizedSize < originalSize) {
-                    // Set the resized image data URL to the original image
-                    img.src = resizedDataUrl;
+                    // Set the resized image data URL to the original image, recorded as a single undo step
+                    this.formatter.withHistoryStep(() => {
+                        img.src = resizedDataUrl;
+                    });
+                    this.formatter.emit('compress', {
+                        ...this.formatter.getEventPayload(),
+                        originalSize: originalSize,
+                        compressedSize: resizedSize,
+                        width: canvas.width,
+                        height: Math.round(canvas.height)
+                    });
                 }
-                const sizeDiff: string = `${Math.ceil((this.imageDetails!.size - (this._getImageSize(img) as number)) / 1024)}kB`
+                const sizeDiff: string = `${Math.ceil((this.imageDetails!.size - (CompressAction.getImageSize(img) as number)) / 1024)}kB`
                 const msg: string = `${this.options.text.reducedLabel}: ${sizeDiff}<br>
                             ${this.imageDetails!.naturalWidth} x ${this.imageDetails!.naturalHeight}px → ${canvas.width} x ${Math.round(canvas.height)}px
                         `;
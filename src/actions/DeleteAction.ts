@@ -1,11 +1,13 @@
 import Action from './Action';
+import type { BlotFormatterEventPayload } from '../Events';
 
 /**
  * Represents an action that handles deletion of a selected blot in a Quill editor.
  * 
  * The `DeleteAction` class listens for keyboard and input events to detect when the user
  * presses the 'Delete' or 'Backspace' keys. If a blot is selected and no modal is open,
- * it deletes the corresponding blot from the editor and hides the formatter UI.
+ * it deletes the corresponding blot (and any additional multi-selected blots) from the editor
+ * and hides the formatter UI.
  * 
  * @remarks
  * - Event listeners are attached on creation and removed on destruction to prevent memory leaks.
@@ -23,26 +25,26 @@ export default class DeleteAction extends Action {
   /**
    * Initializes event listeners for the delete action.
    * 
-   * - Adds a 'keyup' event listener to the document that triggers `_onKeyUp`.
+   * - Adds a 'keyup' event listener to the formatter root node (document or shadow root) that triggers `_onKeyUp`.
    * - Adds an 'input' event listener to the Quill editor's root element that also triggers `_onKeyUp`.
    * 
    * This method should be called when the delete action is created to ensure
    * proper handling of keyboard and input events.
    */
   onCreate = (): void => {
-    document.addEventListener('keyup', this._onKeyUp);
+    this.formatter.rootNode.addEventListener('keyup', this._onKeyUp as EventListener);
     this.formatter.quill.root.addEventListener('input', this._onKeyUp);
   }
 
   /**
    * Cleans up event listeners associated with the action.
    * 
-   * Removes the 'keyup' event listener from the document and the 'input' event listener
+   * Removes the 'keyup' event listener from the formatter root node and the 'input' event listener
    * from the Quill editor's root element to prevent memory leaks and unintended behavior
    * after the action is destroyed.
    */
   onDestroy = (): void => {
-    document.removeEventListener('keyup', this._onKeyUp);
+    this.formatter.rootNode.removeEventListener('keyup', this._onKeyUp as EventListener);
     this.formatter.quill.root.removeEventListener('input', this._onKeyUp);
   }
 
@@ -50,14 +52,12 @@ export default class DeleteAction extends Action {
    * Handles the keyup event for delete and backspace actions.
    * 
    * If no modal is open and a current spec is selected, checks if the pressed key is
-   * 'Delete' or 'Backspace'. If so, finds the target blot element in the Quill editor,
-   * determines its index, and deletes one character at that index. Afterwards, hides the formatter UI.
+   * 'Delete' or 'Backspace' and, if so, deletes the selected blots with `deleteSelected()`.
    * 
    * @param e - The keyboard event triggered by the user.
    */
   private _onKeyUp = (e: KeyboardEvent): void => {
-    const modalOpen: boolean = !!document.querySelector('[data-blot-formatter-modal]')
-    if (!this.formatter.currentSpec || modalOpen) {
+    if (!this.formatter.currentSpec || this.formatter.modalOpen) {
       return;
     }
     // delete or backspace
@@ -65,16 +65,41 @@ export default class DeleteAction extends Action {
       if (this.debug) {
         console.debug('DeleteAction keyup detected:', e.code);
       }
-      // Get the target element from the current spec
-      const targetElement = this.formatter.currentSpec.getTargetElement();
-      if (targetElement) {
-        const blot = this.formatter.Quill.find(targetElement);
-        if (blot) {
-          const index = this.formatter.quill.getIndex(blot);
-          this.formatter.quill.deleteText(index, 1, "user"); // Deletes 1 character from index position
-        }
-      }
-      this.formatter.hide();
+      this.deleteSelected();
     }
   };
+
+  /**
+   * Deletes the current target blot and any additional multi-selected blots.
+   * 
+   * Finds the blot of each selected element in the Quill editor, determines its index, and deletes
+   * one character at that index (last first so earlier indexes stay valid) as a single undo step.
+   * Afterwards, hides the formatter UI and emits the `delete` event for each removed target.
+   * Also used by the context menu delete command.
+   */
+  deleteSelected = (): void => {
+    if (!this.formatter.currentSpec) {
+      return;
+    }
+    // primary target from the current spec plus any multi-selected targets
+    const payloads: BlotFormatterEventPayload[] = [
+      this.formatter.getEventPayload(),
+      ...this.formatter.multiSelection.targets.map(({ spec, element }) => ({
+        target: element,
+        blot: this.formatter.findBlot(element),
+        spec: spec
+      }))
+    ].filter(payload => !!payload.target && !!payload.blot);
+    // delete all targets as a single undo step
+    this.formatter.withHistoryStep(() => {
+      payloads
+        .map(payload => ({ payload, index: this.formatter.quill.getIndex(payload.blot) as number }))
+        .sort((a, b) => b.index - a.index)
+        .forEach(({ index }) => {
+          this.formatter.quill.deleteText(index, 1, "user"); // Deletes 1 character from index position
+        });
+    });
+    this.formatter.hide();
+    payloads.forEach(payload => this.formatter.emit('delete', payload));
+  }
 }
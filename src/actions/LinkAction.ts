@@ -1,4 +1,5 @@
 import Action from './Action';
+import type { InspectInfo } from './Action';
 import BlotFormatter from '../BlotFormatter';
 import type Quill from 'quill';
 import ToolbarButton from './toolbar/ToolbarButton';
@@ -50,7 +51,6 @@ export default class LinkAction extends Action {
             return !!this.getLink();
         };
         this.toolbarButtons = [this.toolbarButton];
-        (window as any).LinkAction = this; // For debugging purposes
     }
 
     /**
@@ -215,9 +215,14 @@ export default class LinkAction extends Action {
         form.className = this.linkOptions.modal.form.className;
         Object.assign(form.style, this.linkOptions.modal.form.style);
 
+        // unique input id so that label association works with several editors on the page
+        const uuid: string = Array.from(crypto.getRandomValues(new Uint8Array(5)), (n) =>
+            String.fromCharCode(97 + (n % 26))
+        ).join('');
+
         // Label
         const label = document.createElement('label');
-        label.htmlFor = 'link-url';
+        label.htmlFor = `${uuid}-link-url`;
         label.textContent = this.linkOptions.modal.label.text;
         label.className = this.linkOptions.modal.label.className;
         Object.assign(label.style, this.linkOptions.modal.label.style);
@@ -225,7 +230,7 @@ export default class LinkAction extends Action {
         // Input
         const input = document.createElement('input');
         input.type = 'url';
-        input.id = 'link-url';
+        input.id = `${uuid}-link-url`;
         input.name = 'url';
         input.value = this.getLink() || '';
         input.select();
@@ -369,7 +374,28 @@ export default class LinkAction extends Action {
      * in the Quill editor and fetches its formats. If a link format is present, it returns the link value; otherwise, it returns `null`.
      */
     getLink = (): any => {
-        const blot = this.currentBlot;
+        return this._getBlotLink(this.currentBlot);
+    }
+
+    /**
+     * Returns the link URL of the target element for the inspect panel.
+     *
+     * @param target - The embed element being inspected.
+     * @returns {InspectInfo[]} A single `link` row, showing `inspect.labels.none` if the embed is not linked.
+     */
+    getInspectInfo = (target: HTMLElement): InspectInfo[] => {
+        const labels = this.formatter.options.inspect.labels;
+        const blot = this.formatter.Quill.find(target) as Blot | null;
+        return [{ label: labels.link, value: this._getBlotLink(blot) || labels.none }];
+    }
+
+    /**
+     * Retrieves the link format applied to a blot.
+     *
+     * @param blot - The blot to check.
+     * @returns {any | null} The link URL, or `null` if the blot is not linked.
+     */
+    private _getBlotLink = (blot: Blot | null | undefined): any => {
         if (!blot || !blot.domNode) return null;
         const index = this.formatter.quill.getIndex(blot);
         const formats = this.formatter.quill.getFormat(index, 1, this.formatter.Quill.sources.SILENT);
@@ -382,16 +408,36 @@ export default class LinkAction extends Action {
     /**
      * Removes the link format from the current image blot's parent wrapper, if present.
      * 
-     * Traverses up the blot hierarchy from the current image blot to find a parent blot
-     * with a 'link' format. If found, it removes the link format from that wrapper.
-     * After removing the link, it hides the link modal and deselects the toolbar button.
+     * After removing the link, it hides the link modal, deselects the toolbar button
+     * and emits the `link-change` event if a link was removed.
      *
      * @returns {void}
      */
     removeLink = (): void => {
+        const previous = this.getLink();
+        this.formatter.withHistoryStep(this._removeLinkFormat);
+        this.hideLinkModal();
+        this.toolbarButton.selected = false;
+        if (previous) {
+            this.formatter.emit('link-change', {
+                ...this.formatter.getEventPayload(),
+                url: null,
+                previous: previous
+            });
+        }
+    }
+
+    /**
+     * Traverses up the blot hierarchy from the current image blot to find a parent blot
+     * with a 'link' format. If found, it removes the link format from that wrapper.
+     *
+     * @private
+     */
+    private _removeLinkFormat = (): void => {
         const imageBlot = this.currentBlot;
         if (!imageBlot || !imageBlot.domNode) return;
-        let wrapperBlot = imageBlot.parent;
+        // start from the blot itself - figure blots (captioned images) hold the link format themselves
+        let wrapperBlot: Blot | null = imageBlot;
         // Traverse upward until we find the inline wrapper with the link format
         while (wrapperBlot && typeof wrapperBlot.formats === 'function') {
             const formats = wrapperBlot.formats();
@@ -404,22 +450,29 @@ export default class LinkAction extends Action {
         if (this.debug) {
             console.debug('LinkAction removeLink called, removed link from blot:', wrapperBlot);
         }
-        this.hideLinkModal();
-        this.toolbarButton.selected = false;
     }
 
     /**
      * Applies a link to the current blot if the provided URL is different from the existing link.
-     * Removes any existing link, formats the current blot with the new link, and updates the toolbar button state.
-     * Hides the link modal after applying the link.
+     * Removes any existing link, formats the current blot with the new link (as a single undo step),
+     * and updates the toolbar button state.
+     * Hides the link modal after applying the link and emits the `link-change` event.
      *
      * @param url - The URL to apply as a link to the current blot.
      */
     applyLink = (url: string): void => {
-        if (url !== this.getLink()) {
-            this.removeLink();
-            this.currentBlot?.format('link', url);
+        const previous = this.getLink();
+        if (url !== previous) {
+            this.formatter.withHistoryStep(() => {
+                this._removeLinkFormat();
+                this.currentBlot?.format('link', url);
+            });
             this.toolbarButton.selected = (!!url);
+            this.formatter.emit('link-change', {
+                ...this.formatter.getEventPayload(),
+                url: url,
+                previous: previous
+            });
         }
         this.hideLinkModal();
     }
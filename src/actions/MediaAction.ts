@@ -0,0 +1,225 @@
+import Action from './Action';
+import type { InspectInfo } from './Action';
+import BlotFormatter from '../BlotFormatter';
+import ToolbarButton from './toolbar/ToolbarButton';
+import { MEDIA_BOOLEAN_ATTRIBUTES } from '../blots/Media';
+
+interface PosterModal {
+    element: HTMLDivElement;
+    form: HTMLFormElement;
+    input: HTMLInputElement;
+    cancelButton: HTMLButtonElement;
+}
+
+/**
+ * Toggles the attributes of a native `<video>` or `<audio>` element from the toolbar.
+ *
+ * Adds a toggle button for each of `controls`, `autoplay`, `muted` and `loop`, shown as selected while the
+ * attribute is set, and a `poster` button for videos that opens a modal to set or remove the poster image url.
+ *
+ * @remarks
+ * - Attributes are applied as blot formats (see `createNativeVideoBlotClass`) so that each change is a single
+ *   undo step and is kept in the delta. Each change emits the `media-change` event.
+ * - The `controls` button is not shown for audio elements, which are hidden by the browser without controls.
+ * - The poster modal uses the styles and icons of the alt/title modal (`image.altTitleModalOptions`).
+ *
+ * @extends Action
+ */
+export default class MediaAction extends Action {
+    targetElement: HTMLElement | null | undefined = null;
+    modal: PosterModal;
+
+    constructor(formatter: BlotFormatter) {
+        super(formatter);
+        this.toolbarButtons = MEDIA_BOOLEAN_ATTRIBUTES.map(attribute => {
+            const button = new ToolbarButton(
+                attribute,
+                this._onToggleClickHandler,
+                this.formatter.options.toolbar
+            );
+            button.preselect = () => {
+                return !!this.targetElement?.hasAttribute(attribute);
+            };
+            return button;
+        });
+        const posterButton = new ToolbarButton(
+            'poster',
+            this._onPosterClickHandler,
+            this.formatter.options.toolbar
+        );
+        posterButton.preselect = () => {
+            return !!this.targetElement?.hasAttribute('poster');
+        };
+        this.toolbarButtons.push(posterButton);
+        this.modal = this._createModal();
+    }
+
+    /**
+     * Initializes the target element from the current formatter specification and hides the buttons
+     * that do not apply to it (`poster` for audio, `controls` for audio).
+     */
+    onCreate = (): void => {
+        this.targetElement = this.formatter.currentSpec?.getTargetElement();
+        const isVideo = this.targetElement instanceof HTMLVideoElement;
+        this.toolbarButtons.forEach(button => {
+            if (button.action === 'poster' || button.action === 'controls') {
+                button.initialVisibility = isVideo;
+            }
+        });
+    }
+
+    /**
+     * Clears the target element and removes the poster modal and its event listeners.
+     */
+    onDestroy = (): void => {
+        this.targetElement = null;
+        this.modal.form.removeEventListener('submit', this._onSubmitHandler);
+        this.modal.form.removeEventListener('cancel', this._hidePosterModal);
+        this.modal.element.removeEventListener('pointerdown', this._onPointerDownHandler);
+        this.modal.cancelButton.removeEventListener('click', this._hidePosterModal);
+        this.modal.element.remove();
+    }
+
+    /**
+     * Returns the boolean attributes set on the target element and, for videos, the poster url
+     * for the inspect panel.
+     *
+     * @param target - The media element being inspected.
+     * @returns {InspectInfo[]} The `playback` row and, for videos, the `poster` row.
+     */
+    getInspectInfo = (target: HTMLElement): InspectInfo[] => {
+        const labels = this.formatter.options.inspect.labels;
+        const attributes = MEDIA_BOOLEAN_ATTRIBUTES.filter(attribute => target.hasAttribute(attribute));
+        const info: InspectInfo[] = [{ label: labels.playback, value: attributes.join(', ') || labels.none }];
+        if (target instanceof HTMLVideoElement) {
+            info.push({ label: labels.poster, value: target.getAttribute('poster') || labels.none });
+        }
+        return info;
+    }
+
+    /**
+     * Toggles the boolean attribute named by the clicked button's `data-action` attribute.
+     *
+     * @param event - The click event from the toolbar button.
+     */
+    private _onToggleClickHandler: EventListener = (event: Event): void => {
+        const attribute = (event.currentTarget as HTMLElement | null)?.dataset.action;
+        if (attribute && this.targetElement) {
+            this.setAttribute(attribute, !this.targetElement.hasAttribute(attribute));
+        }
+    }
+
+    /**
+     * Sets or removes a media attribute as a single undo step, updates the button state and emits the
+     * `media-change` event.
+     *
+     * @param attribute - The attribute name (`controls`, `autoplay`, `muted`, `loop` or `poster`).
+     * @param value - `true` or the attribute value to set it, `false` or `null` to remove it.
+     */
+    setAttribute = (attribute: string, value: string | boolean | null): void => {
+        if (!this.targetElement) return;
+        const targetElement: HTMLElement = this.targetElement;
+        this.formatter.withHistoryStep(() => {
+            this.formatter.formatBlot(targetElement, { [attribute]: value || null });
+        });
+        const button = this.toolbarButtons.find(button => button.action === attribute);
+        if (button) {
+            button.selected = targetElement.hasAttribute(attribute);
+        }
+        if (this.debug) {
+            console.debug('MediaAction set', attribute, 'to', value, 'on', targetElement);
+        }
+        this.formatter.emit('media-change', {
+            ...this.formatter.getEventPayload(),
+            attribute: attribute,
+            value: value || null
+        });
+    }
+
+    /**
+     * Opens the poster modal for the target video.
+     */
+    private _onPosterClickHandler: EventListener = (): void => {
+        if (this.targetElement instanceof HTMLVideoElement) {
+            this.modal.input.value = this.targetElement.getAttribute('poster') || '';
+            this.formatter.modalHost.append(this.modal.element);
+            this.modal.input.focus();
+        }
+    }
+
+    /**
+     * Hides and removes the poster modal from the DOM.
+     */
+    private _hidePosterModal = (): void => {
+        this.modal.element.remove();
+    }
+
+    /**
+     * Creates the modal used to set the poster url, styled by `image.altTitleModalOptions`.
+     * Submitting an empty url removes the poster.
+     *
+     * @returns {PosterModal} The modal element, form, url input and cancel button.
+     */
+    private _createModal = (): PosterModal => {
+        const modalOptions = this.formatter.options.image.altTitleModalOptions;
+
+        const modal = document.createElement('div');
+        modal.setAttribute('data-blot-formatter-modal', '');
+        const modalContainer = document.createElement('div');
+        const form = document.createElement('form');
+
+        const label = document.createElement('label');
+        label.textContent = this.formatter.options.media.posterLabel;
+        const input = document.createElement('input');
+        input.type = 'url';
+        input.name = 'poster';
+        label.appendChild(input);
+
+        const buttonDiv = document.createElement('div');
+        const submitButton = document.createElement('button');
+        submitButton.type = 'submit';
+        submitButton.innerHTML = modalOptions.icons.submitButton;
+        buttonDiv.appendChild(submitButton);
+        form.append(label, buttonDiv);
+
+        const cancelButton = document.createElement('button');
+        cancelButton.type = 'button';
+        cancelButton.innerHTML = modalOptions.icons.cancelButton;
+
+        if (modalOptions.styles) {
+            Object.assign(modal.style, modalOptions.styles.modalBackground);
+            Object.assign(modalContainer.style, modalOptions.styles.modalContainer);
+            Object.assign(label.style, modalOptions.styles.label);
+            Object.assign(input.style, modalOptions.styles.textarea);
+            Object.assign(submitButton.style, modalOptions.styles.submitButton);
+            Object.assign(cancelButton.style, modalOptions.styles.cancelButton);
+        }
+
+        modalContainer.append(form, cancelButton);
+        modal.appendChild(modalContainer);
+
+        form.addEventListener('submit', this._onSubmitHandler);
+        form.addEventListener('cancel', this._hidePosterModal);
+        modal.addEventListener('pointerdown', this._onPointerDownHandler);
+        cancelButton.addEventListener('click', this._hidePosterModal);
+
+        return {
+            element: modal,
+            form: form,
+            input: input,
+            cancelButton: cancelButton
+        };
+    }
+
+    private _onSubmitHandler = (event: SubmitEvent): void => {
+        event.preventDefault();
+        this.setAttribute('poster', this.modal.input.value.trim() || null);
+        this._hidePosterModal();
+    }
+
+    private _onPointerDownHandler = (event: PointerEvent): void => {
+        if (event.target === this.modal.element) {
+            this._hidePosterModal();
+        }
+    }
+}
@@ -0,0 +1,295 @@
+import Action from './Action';
+import type { InspectInfo } from './Action';
+import BlotFormatter from '../BlotFormatter';
+import ToolbarButton from './toolbar/ToolbarButton';
+import {
+    findIframeProvider,
+    getStartTime,
+    isPrivacyEnhanced,
+    setPrivacyEnhanced,
+    setStartTime
+} from '../providers/IframeProviders';
+import type { IframeProvider } from '../Options';
+
+interface StartTimeModal {
+    element: HTMLDivElement;
+    form: HTMLFormElement;
+    input: HTMLInputElement;
+    cancelButton: HTMLButtonElement;
+}
+
+/**
+ * Adds the provider specific options of an iframe (YouTube, Vimeo etc.) to the toolbar.
+ *
+ * The provider is recognised from the iframe `src` (see `video.providers`). Depending on the provider, adds:
+ * - a `startTime` button that opens a modal to set or remove the start time of the video (`m:ss`, `h:mm:ss` or seconds),
+ * - a `privacy` toggle button that switches the iframe between the standard and privacy-enhanced (no cookie) player domain,
+ *   shown as selected while the privacy-enhanced domain is used.
+ *
+ * @remarks
+ * - Buttons not supported by the provider are not shown. No buttons are shown for iframes from unrecognised providers.
+ * - The iframe `src` (the video blot value) is changed directly and flushed to Quill as a single undo step.
+ *   Each change emits the `source-change` event.
+ * - The start time modal uses the styles and icons of the alt/title modal (`image.altTitleModalOptions`).
+ *
+ * @extends Action
+ */
+export default class ProviderAction extends Action {
+    targetElement: HTMLElement | null | undefined = null;
+    provider: IframeProvider | null = null;
+    modal: StartTimeModal;
+
+    constructor(formatter: BlotFormatter) {
+        super(formatter);
+        const startTimeButton = new ToolbarButton(
+            'startTime',
+            this._onStartTimeClickHandler,
+            this.formatter.options.toolbar
+        );
+        startTimeButton.preselect = () => {
+            return this.getStartTime() !== null;
+        };
+        const privacyButton = new ToolbarButton(
+            'privacy',
+            this._onPrivacyClickHandler,
+            this.formatter.options.toolbar
+        );
+        privacyButton.preselect = () => {
+            return this.isPrivacyEnhanced();
+        };
+        this.toolbarButtons = [startTimeButton, privacyButton];
+        this.modal = this._createModal();
+    }
+
+    /**
+     * Initializes the target element and its provider from the current formatter specification and hides
+     * the buttons not supported by the provider.
+     */
+    onCreate = (): void => {
+        this.targetElement = this.formatter.currentSpec?.getTargetElement();
+        this.provider = findIframeProvider(this.formatter.options.video.providers, this.targetElement);
+        this.toolbarButtons.forEach(button => {
+            button.initialVisibility = button.action === 'startTime'
+                ? !!this.provider?.startTime
+                : !!this.provider?.privacyDomain;
+        });
+    }
+
+    /**
+     * Clears the target element and provider, and removes the start time modal and its event listeners.
+     */
+    onDestroy = (): void => {
+        this.targetElement = null;
+        this.provider = null;
+        this.modal.form.removeEventListener('submit', this._onSubmitHandler);
+        this.modal.form.removeEventListener('cancel', this._hideStartTimeModal);
+        this.modal.element.removeEventListener('pointerdown', this._onPointerDownHandler);
+        this.modal.cancelButton.removeEventListener('click', this._hideStartTimeModal);
+        this.modal.element.remove();
+    }
+
+    /**
+     * Returns the start time of the target iframe for the inspect panel, if its provider supports one.
+     *
+     * @param target - The iframe being inspected.
+     * @returns {InspectInfo[]} The `startTime` row, or no rows if the provider does not support a start time.
+     */
+    getInspectInfo = (target: HTMLElement): InspectInfo[] => {
+        const provider = findIframeProvider(this.formatter.options.video.providers, target);
+        if (!provider?.startTime) return [];
+        const labels = this.formatter.options.inspect.labels;
+        const seconds = getStartTime(provider, target.getAttribute('src') ?? '');
+        return [{ label: labels.startTime, value: seconds ? this._formatTime(seconds) : labels.none }];
+    }
+
+    /**
+     * Returns the start time of the target iframe in seconds.
+     *
+     * @returns {number | null} The start time, or `null` if not set or not supported by the provider.
+     */
+    getStartTime = (): number | null => {
+        if (!this.provider || !this.targetElement) return null;
+        return getStartTime(this.provider, this.targetElement.getAttribute('src') ?? '');
+    }
+
+    /**
+     * Sets or removes the start time of the target iframe.
+     *
+     * @param seconds - The start time in seconds, `null` or 0 to remove it.
+     */
+    setStartTime = (seconds: number | null): void => {
+        if (!this.provider || !this.targetElement) return;
+        this.setSource(setStartTime(this.provider, this.targetElement.getAttribute('src') ?? '', seconds));
+    }
+
+    /**
+     * Determines whether the target iframe uses the provider's privacy-enhanced domain.
+     *
+     * @returns {boolean} `true` if the privacy-enhanced domain is used.
+     */
+    isPrivacyEnhanced = (): boolean => {
+        if (!this.provider || !this.targetElement) return false;
+        return isPrivacyEnhanced(this.provider, this.targetElement.getAttribute('src') ?? '');
+    }
+
+    /**
+     * Switches the target iframe to the provider's privacy-enhanced or standard domain.
+     *
+     * @param enhanced - `true` for the privacy-enhanced domain, `false` for the standard domain.
+     */
+    setPrivacyEnhanced = (enhanced: boolean): void => {
+        if (!this.provider || !this.targetElement) return;
+        this.setSource(setPrivacyEnhanced(this.provider, this.targetElement.getAttribute('src') ?? '', enhanced));
+    }
+
+    /**
+     * Sets the `src` of the target iframe as a single undo step, updates the button states and emits the
+     * `source-change` event. Nothing is changed if the source is unchanged.
+     *
+     * @param src - The new iframe source.
+     */
+    setSource = (src: string): void => {
+        if (!this.targetElement) return;
+        const targetElement: HTMLElement = this.targetElement;
+        const previous = targetElement.getAttribute('src') ?? '';
+        if (src === previous) return;
+        // the src is the video blot value, the DOM change is flushed to Quill by withHistoryStep
+        this.formatter.withHistoryStep(() => {
+            targetElement.setAttribute('src', src);
+        });
+        this.toolbarButtons.forEach(button => {
+            button.selected = button.action === 'startTime'
+                ? this.getStartTime() !== null
+                : this.isPrivacyEnhanced();
+        });
+        if (this.debug) {
+            console.debug('ProviderAction set src from', previous, 'to', src, 'on', targetElement);
+        }
+        this.formatter.emit('source-change', {
+            ...this.formatter.getEventPayload(),
+            src: src,
+            previous: previous
+        });
+    }
+
+    /**
+     * Toggles the privacy-enhanced domain of the target iframe.
+     */
+    private _onPrivacyClickHandler: EventListener = (): void => {
+        this.setPrivacyEnhanced(!this.isPrivacyEnhanced());
+    }
+
+    /**
+     * Opens the start time modal for the target iframe.
+     */
+    private _onStartTimeClickHandler: EventListener = (): void => {
+        const seconds = this.getStartTime();
+        this.modal.input.value = seconds ? this._formatTime(seconds) : '';
+        this.formatter.modalHost.append(this.modal.element);
+        this.modal.input.focus();
+    }
+
+    /**
+     * Hides and removes the start time modal from the DOM.
+     */
+    private _hideStartTimeModal = (): void => {
+        this.modal.element.remove();
+    }
+
+    /**
+     * Formats a time in seconds as `m:ss`, or `h:mm:ss` for an hour or more.
+     *
+     * @param seconds - The time in seconds.
+     * @returns {string} The formatted time.
+     */
+    private _formatTime = (seconds: number): string => {
+        const hours = Math.floor(seconds / 3600);
+        const minutes = Math.floor((seconds % 3600) / 60);
+        const secs = `${seconds % 60}`.padStart(2, '0');
+        return hours
+            ? `${hours}:${`${minutes}`.padStart(2, '0')}:${secs}`
+            : `${minutes}:${secs}`;
+    }
+
+    /**
+     * Parses a time entered as seconds, `m:ss` or `h:mm:ss`.
+     *
+     * @param value - The entered time.
+     * @returns {number | null} The time in seconds, or `null` if empty or invalid.
+     */
+    private _parseTime = (value: string): number | null => {
+        if (!/^\d+(:\d{1,2}){0,2}$/.test(value)) return null;
+        return value.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+    }
+
+    /**
+     * Creates the modal used to set the start time, styled by `image.altTitleModalOptions`.
+     * Submitting an empty time removes the start time.
+     *
+     * @returns {StartTimeModal} The modal element, form, time input and cancel button.
+     */
+    private _createModal = (): StartTimeModal => {
+        const modalOptions = this.formatter.options.image.altTitleModalOptions;
+
+        const modal = document.createElement('div');
+        modal.setAttribute('data-blot-formatter-modal', '');
+        const modalContainer = document.createElement('div');
+        const form = document.createElement('form');
+
+        const label = document.createElement('label');
+        label.textContent = this.formatter.options.video.startTimeLabel;
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.name = 'startTime';
+        input.pattern = '\\d+(:\\d{1,2}){0,2}';
+        input.placeholder = '0:00';
+        label.appendChild(input);
+
+        const buttonDiv = document.createElement('div');
+        const submitButton = document.createElement('button');
+        submitButton.type = 'submit';
+        submitButton.innerHTML = modalOptions.icons.submitButton;
+        buttonDiv.appendChild(submitButton);
+        form.append(label, buttonDiv);
+
+        const cancelButton = document.createElement('button');
+        cancelButton.type = 'button';
+        cancelButton.innerHTML = modalOptions.icons.cancelButton;
+
+        if (modalOptions.styles) {
+            Object.assign(modal.style, modalOptions.styles.modalBackground);
+            Object.assign(modalContainer.style, modalOptions.styles.modalContainer);
+            Object.assign(label.style, modalOptions.styles.label);
+            Object.assign(input.style, modalOptions.styles.textarea);
+            Object.assign(submitButton.style, modalOptions.styles.submitButton);
+            Object.assign(cancelButton.style, modalOptions.styles.cancelButton);
+        }
+
+        modalContainer.append(form, cancelButton);
+        modal.appendChild(modalContainer);
+
+        form.addEventListener('submit', this._onSubmitHandler);
+        form.addEventListener('cancel', this._hideStartTimeModal);
+        modal.addEventListener('pointerdown', this._onPointerDownHandler);
+        cancelButton.addEventListener('click', this._hideStartTimeModal);
+
+        return {
+            element: modal,
+            form: form,
+            input: input,
+            cancelButton: cancelButton
+        };
+    }
+
+    private _onSubmitHandler = (event: SubmitEvent): void => {
+        event.preventDefault();
+        this.setStartTime(this._parseTime(this.modal.input.value.trim()));
+        this._hideStartTimeModal();
+    }
+
+    private _onPointerDownHandler = (event: PointerEvent): void => {
+        if (event.target === this.modal.element) {
+            this._hideStartTimeModal();
+        }
+    }
+}
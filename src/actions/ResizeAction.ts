@@ -1,12 +1,61 @@
 import Action from './Action';
+import type { InspectInfo } from './Action';
 import BlotFormatter from '../BlotFormatter';
 import ToolbarButton from './toolbar/ToolbarButton';
+import ResizeSnapper from './ResizeSnapper';
+import { constrainHeight, constrainWidth, getSizeLimits, parseSizeConstraint } from './SizeConstraints';
+import type { SizeLimits } from './SizeConstraints';
+import type { EmbedSizing, SizeConstraint } from '../Options';
+import { findIframeProvider } from '../providers/IframeProviders';
+import {
+  getResponsiveWidth,
+  RESPONSIVE_WIDTHS_ATTRIBUTE,
+  setResponsiveWidth,
+  sortBreakpoints
+} from '../responsive/ResponsiveWidths';
 
 interface HandleStyle {
   width?: string;
   height?: string;
 }
 
+/**
+ * Resize state captured for each additional multi-selected target when a resize starts.
+ * Group targets are scaled proportionally to the primary target.
+ */
+interface GroupTarget {
+  element: HTMLElement;
+  sizing: EmbedSizing;
+  useRelativeSize: boolean;
+  preDragWidth: number;
+  aspectRatio: number;
+  computedAspectRatio: string;
+  naturalWidth: number | undefined;
+  sizeLimits: SizeLimits;
+  formattedWidth: string;
+}
+
+/**
+ * The width and height attributes (inline aspect ratio and breakpoint widths) of a target before a resize started.
+ * Restored before the final size is applied through Quill so the resize is recorded as one change.
+ */
+interface DimensionAttributes {
+  width: string | null;
+  height: string | null;
+  aspectRatio: string | null;
+  responsiveWidths: string | null;
+}
+
+/**
+ * The editable width, height and unit controls shown in the size info box (`resize.allowSizeInput`).
+ */
+interface SizeInput {
+  form: HTMLFormElement;
+  width: HTMLInputElement;
+  height: HTMLInputElement;
+  unit: HTMLSelectElement;
+}
+
 /**
  * Provides interactive resizing functionality for elements within a Quill editor overlay.
  * 
@@ -18,10 +67,27 @@ interface HandleStyle {
  * 
  * @remarks
  * - Handles mouse and touch events for resizing, including pinch-to-resize gestures.
- * - Maintains aspect ratio and supports custom aspect ratios for unclickable elements.
+ * - Maintains aspect ratio and supports custom aspect ratios for elements sized by aspect ratio (e.g. iframes).
+ * - With `resize.allowFreeResize`, adds edge handles that change only the width or only the height of images
+ *   and iframes, and corner handles resize freely while the `resize.freeResizeModifier` key is held.
+ *   Images are given an explicit `height`, iframes a new `aspect-ratio`.
+ * - Snaps dragged widths to preset sizes and shows alignment guides with neighbouring blots (`resize.snap`,
+ *   see `ResizeSnapper`).
+ * - With `resize.allowSizeInput`, double clicking the overlay turns the size info box into width, height and unit
+ *   inputs. Submitted sizes are applied as for a drag, with the same limits.
+ * - Constrains sizes by `resize.maxWidth`, `minHeight`, `maxHeight` and `specConstraints` (see `getSizeLimits`).
+ * - Sizes can be set programmatically with `setSize`.
+ * - With `resize.allowKeyboardResize`, ArrowUp and ArrowDown grow and shrink the width (larger steps with Shift),
+ *   or the height with Alt. Each burst of key presses is recorded as a single undo step.
+ * - With `resize.responsive.enabled`, adds a breakpoint button to switch the breakpoint being resized and previewed
+ *   (see `BreakpointPreview`). While a breakpoint is active, resizing sets the target's width for that breakpoint
+ *   (the `responsiveWidths` format) rather than its width attribute, and free resizing is disabled.
+ * - Applies the width according to the spec's `sizing` strategy (see `EmbedSizing`).
  * - Integrates with a toolbar for resize mode switching.
  * - Displays live size info and manages fade-out transitions.
  * - Supports oversize protection for images and SVG detection.
+ * - Scales any additional multi-selected targets proportionally with the primary target.
+ * - Records each completed resize as a single undo step in the editor history.
  * - Ensures proper cleanup to prevent memory leaks.
  * 
  * @example
@@ -37,10 +103,19 @@ export default class ResizeAction extends Action {
   private _topRightHandle: HTMLElement;
   private _bottomRightHandle: HTMLElement;
   private _bottomLeftHandle: HTMLElement;
+  private _topHandle: HTMLElement;
+  private _rightHandle: HTMLElement;
+  private _bottomHandle: HTMLElement;
+  private _leftHandle: HTMLElement;
   private _dragHandle: HTMLElement | null | undefined = null;
   private _dragStartX: number = 0;
+  private _dragStartY: number = 0;
   private _dragCursorStyle: HTMLElement;
   private _preDragWidth: number = 0;
+  private _preDragHeight: number = 0;
+  private _preDragAspectRatioStyle: string = '';
+  private _canResizeFreely: boolean = false;
+  private _hasFreeResized: boolean = false;
   private _pinchStartDistance: number = 0;
   private _calculatedAspectRatio: number = 0;
   private _computedAspectRatio: string | undefined = undefined;
@@ -49,13 +124,24 @@ export default class ResizeAction extends Action {
   private _editorWidth: number = 0;
   private _useRelativeSize: boolean;
   private _resizeModeButton: ToolbarButton | null = null;
-  private _isUnclickable: boolean = false;
+  private _breakpointButton: ToolbarButton | null = null;
+  private _sizing: EmbedSizing = 'wrapper';
   private _hasResized: boolean = false;
   private _formattedWidth: string = '';
   private _sizeInfoTimerId: ReturnType<typeof setTimeout> | null = null;
   private _isImage: boolean = false;
   private _isSVG: boolean = false;
   private _naturalWidth: number | undefined = undefined;
+  private _sizeLimits: SizeLimits = { minWidth: 0, maxWidth: Infinity, minHeight: 0, maxHeight: Infinity };
+  private _groupTargets: GroupTarget[] = [];
+  private _preResizeDimensions: Map<HTMLElement, DimensionAttributes> | null = null;
+  private _snapper: ResizeSnapper;
+  private _sizeInput: SizeInput | null = null;
+  private _sizeInputAspectRatio: number = 1;
+  private _keyboardResizing: boolean = false;
+  private _keyboardWidth: number = 0;
+  private _keyboardHeight: number = 0;
+  private _keyboardResizeTimerId: ReturnType<typeof setTimeout> | null = null;
 
   constructor(formatter: BlotFormatter) {
     super(formatter);
@@ -63,6 +149,11 @@ export default class ResizeAction extends Action {
     this._topRightHandle = this._createHandle('top-right', 'nesw-resize');
     this._bottomRightHandle = this._createHandle('bottom-right', 'nwse-resize');
     this._bottomLeftHandle = this._createHandle('bottom-left', 'nesw-resize');
+    this._topHandle = this._createHandle('top', 'ns-resize');
+    this._rightHandle = this._createHandle('right', 'ew-resize');
+    this._bottomHandle = this._createHandle('bottom', 'ns-resize');
+    this._leftHandle = this._createHandle('left', 'ew-resize');
+    this._snapper = new ResizeSnapper(formatter);
     this._dragCursorStyle = document.createElement('style');
     this._useRelativeSize = this.formatter.options.resize.useRelativeSize;
     if (formatter.options.resize.allowResizeModeChange) {
@@ -71,11 +162,19 @@ export default class ResizeAction extends Action {
         this._resizeModeButton
       ]
     }
+    if (formatter.options.resize.responsive.enabled) {
+      this._breakpointButton = this._createBreakpointButton();
+      this.toolbarButtons = [
+        ...this.toolbarButtons,
+        this._breakpointButton
+      ]
+    }
   }
 
   /**
    * Initializes the resize action by setting up the target element, determining its type,
-   * and appending resize handles to the overlay. Also attaches mouse and touch event listeners
+   * and appending resize handles to the overlay. Edge handles are only appended if the target can be
+   * resized freely (`resize.allowFreeResize`, images and targets sized by aspect ratio). Also attaches mouse and touch event listeners
    * to the overlay for handling user interactions. Finally, positions the handles according to
    * the specified style options.
    *
@@ -85,18 +184,34 @@ export default class ResizeAction extends Action {
    */
   onCreate = (): void => {
     this._target = this.formatter.currentSpec?.getTargetElement();
-    this._isUnclickable = this.formatter.currentSpec?.isUnclickable || false;
+    this._sizing = this.formatter.currentSpec?.sizing ?? 'wrapper';
     this._isImage = this._target instanceof HTMLImageElement;
     if (this._isImage) {
       this._isSVG = this._isSvgImage();
     }
+    this._canResizeFreely = this.formatter.options.resize.allowFreeResize &&
+      (this._isImage || this._sizing === 'aspect-ratio');
 
     this.formatter.overlay.append(
       this._topLeftHandle, this._topRightHandle,
       this._bottomRightHandle, this._bottomLeftHandle
     );
+    if (this._canResizeFreely) {
+      this.formatter.overlay.append(
+        this._topHandle, this._rightHandle,
+        this._bottomHandle, this._leftHandle
+      );
+      this._showEdgeHandles();
+    }
     this.formatter.overlay.addEventListener('mousedown', this._onOverlayMouseDown)
     this.formatter.overlay.addEventListener('mouseup', this._onOverlayMouseUp)
+    if (this.formatter.options.resize.allowSizeInput) {
+      this.formatter.overlay.addEventListener('dblclick', this._onOverlayDoubleClick);
+    }
+    if (this.formatter.options.resize.allowKeyboardResize) {
+      this.formatter.rootNode.addEventListener('keydown', this._onKeyDown as EventListener);
+      this.formatter.rootNode.addEventListener('keyup', this._onKeyUp as EventListener);
+    }
 
     const passiveFalse = { passive: false } as EventListenerOptions;
     this.formatter.overlay.addEventListener('touchstart', this._onOverlayTouchStart, passiveFalse);
@@ -106,7 +221,7 @@ export default class ResizeAction extends Action {
     const handleStyle: HandleStyle = this.formatter.options.resize.handleStyle || {};
     this._repositionHandles(handleStyle);
     if (this.debug) {
-      console.debug('ResizeAction created with target:', this._target, 'isUnclickable:', this._isUnclickable);
+      console.debug('ResizeAction created with target:', this._target, 'sizing:', this._sizing);
     }
   }
 
@@ -120,18 +235,29 @@ export default class ResizeAction extends Action {
    * and unintended behavior.
    */
   onDestroy = (): void => {
+    this._endKeyboardResize();
+    this.formatter.rootNode.removeEventListener('keydown', this._onKeyDown as EventListener);
+    this.formatter.rootNode.removeEventListener('keyup', this._onKeyUp as EventListener);
+    this._closeSizeInput();
+    this._commitHistoryStep();
     this._target = null;
-    this._isUnclickable = false;
+    this._sizing = 'wrapper';
     this._isImage = false;
     this._naturalWidth = undefined;
+    this._groupTargets = [];
+    this._snapper.end();
     this._isSVG = false;
+    this._canResizeFreely = false;
     this._setCursor('');
     [
       this._topLeftHandle, this._topRightHandle,
-      this._bottomRightHandle, this._bottomLeftHandle
+      this._bottomRightHandle, this._bottomLeftHandle,
+      this._topHandle, this._rightHandle,
+      this._bottomHandle, this._leftHandle
     ].forEach(handle => { handle.remove(); });
     this.formatter.overlay.removeEventListener('mousedown', this._onOverlayMouseDown);
     this.formatter.overlay.removeEventListener('mouseup', this._onOverlayMouseUp);
+    this.formatter.overlay.removeEventListener('dblclick', this._onOverlayDoubleClick);
 
     const passiveFalse = { passive: false } as EventListenerOptions;
     this.formatter.overlay.removeEventListener('touchstart', this._onOverlayTouchStart, passiveFalse);
@@ -146,7 +272,7 @@ export default class ResizeAction extends Action {
    * The handle is styled using the class name and optional style provided in the formatter's options.
    * It also sets a `data-position` attribute and attaches a pointer down event listener.
    *
-   * @param position - The position identifier for the handle (e.g., 'top-left', 'bottom-right').
+   * @param position - The position identifier for the handle (e.g., 'top-left', 'bottom-right', 'left').
    * @param cursor - The CSS cursor style to apply when hovering over the handle.
    * @returns The created HTMLElement representing the resize handle.
    */
@@ -170,9 +296,9 @@ export default class ResizeAction extends Action {
    *                      If provided, the handles are offset by half their width and height to center them.
    *                      If not provided, default offsets of '0px' are used.
    *
-   * The method updates the `left`, `right`, `top`, and `bottom` CSS properties of the four handles
+   * The method updates the `left`, `right`, `top`, and `bottom` CSS properties of the four corner handles
    * (`_topLeftHandle`, `_topRightHandle`, `_bottomRightHandle`, `_bottomLeftHandle`) to ensure they are
-   * correctly positioned relative to the element being resized.
+   * correctly positioned relative to the element being resized. The edge handles are centred on each side.
    */
   private _repositionHandles = (handleStyle?: HandleStyle): void => {
     // Cache offset calculations
@@ -195,12 +321,21 @@ export default class ResizeAction extends Action {
     const { style: bottomLeftStyle } = this._bottomLeftHandle;
     bottomLeftStyle.left = handleXOffset;
     bottomLeftStyle.bottom = handleYOffset;
+
+    // edge handles centred on each side
+    const centreX = `calc(50% + ${handleXOffset})`;
+    const centreY = `calc(50% + ${handleYOffset})`;
+    Object.assign(this._topHandle.style, { left: centreX, top: handleYOffset });
+    Object.assign(this._rightHandle.style, { right: handleXOffset, top: centreY });
+    Object.assign(this._bottomHandle.style, { left: centreX, bottom: handleYOffset });
+    Object.assign(this._leftHandle.style, { left: handleXOffset, top: centreY });
   }
 
   /**
    * Sets the cursor style for the document body and all its children.
    * When a non-empty value is provided, it applies the specified cursor style
-   * globally by injecting a style element into the document head.
+   * globally by injecting a style element into the document head
+   * (or into the shadow root, for all of its elements, if the editor is inside a shadow tree).
    * When an empty value is provided, it removes the previously injected style element,
    * reverting the cursor to its default behavior.
    *
@@ -214,14 +349,13 @@ export default class ResizeAction extends Action {
 
     try {
       if (value) {
-        this._dragCursorStyle.innerHTML = `body, body * { cursor: ${value} !important; }`;
-        if (!document.head.contains(this._dragCursorStyle)) {
-          document.head.appendChild(this._dragCursorStyle);
+        const selector = this.formatter.rootNode instanceof Document ? 'body, body *' : ':host, *';
+        this._dragCursorStyle.innerHTML = `${selector} { cursor: ${value} !important; }`;
+        if (!this._dragCursorStyle.isConnected) {
+          this.formatter.styleHost.appendChild(this._dragCursorStyle);
         }
       } else {
-        if (document.head.contains(this._dragCursorStyle)) {
-          document.head.removeChild(this._dragCursorStyle);
-        }
+        this._dragCursorStyle.remove();
       }
     } catch (error) {
       console.error('ResizeAction: Error setting cursor style:', error);
@@ -233,19 +367,25 @@ export default class ResizeAction extends Action {
    * 
    * When activated, prepares the target for resizing by determining the resize mode (absolute or relative),
    * calculating editor and target dimensions, handling aspect ratio logic, and displaying size information.
-   * When deactivated, applies the finalized width to the _target, updates toolbar button states, sets style attributes,
-   * clears cached natural width, updates the formatter, and hides the size info box.
+   * The same state is captured for any additional multi-selected targets.
+   * When deactivated, applies the finalized width to the _target (and group targets), commits the resize to the
+   * editor history, updates toolbar button states, sets style attributes, clears cached natural width,
+   * updates the formatter, and hides the size info box.
    * 
    * @param activate - If `true`, activates resize mode; if `false`, finalizes and deactivates resize mode.
+   * @param useRelativeSize - The resize mode to use on activation, determined from the target and options if not set
+   *                          (used by the size input unit selector).
    */
-  private _resizeMode = (activate: boolean): void => {
+  private _resizeMode = (activate: boolean, useRelativeSize?: boolean): void => {
     if (activate) {
+      // end any keyboard resize in progress before a new resize starts
+      this._endKeyboardResize();
       // activate resize mode, show size info
       this._hasResized = false;
       this._formattedWidth = '';
       if (!!this._target) {
         // determine resize mode to use (absolute/relative)
-        this._useRelativeSize = this.formatter._useRelative(this._target);
+        this._useRelativeSize = useRelativeSize ?? this._useRelativeWidth(this._target);
         // get inner editor width to calculate % values
         this._editorStyle = getComputedStyle(this.formatter.quill.root);
         this._editorWidth = this.formatter.quill.root.clientWidth -
@@ -258,36 +398,44 @@ export default class ResizeAction extends Action {
           rect.height = this._target.clientHeight + 1;
         }
         this._preDragWidth = rect.width;
+        this._preDragHeight = rect.height;
+        this._hasFreeResized = false;
         this._computedAspectRatio = getComputedStyle(this._target).aspectRatio || 'auto'
         this._calculatedAspectRatio = rect.width / rect.height;
 
         if (this._useRelativeSize) {
-          if (this._isUnclickable) {
+          if (this._sizing === 'aspect-ratio') {
             // strip height for relative iframe sizing, rely on aspect-ratio instead
             if (this._computedAspectRatio === 'auto') {
-              // relative size on iframe requires aspect-ratio to be set - use default from options
-              this._target.style.aspectRatio = this.formatter.options.video.defaultAspectRatio;
+              // relative size on iframe requires aspect-ratio to be set - use provider or default from options
+              const aspectRatio = this._getDefaultAspectRatio(this._target);
+              this._target.style.aspectRatio = aspectRatio;
               console.warn(
                 `No iframe aspect-ratio set. Set an aspect ratio either via custom blot or css.\n` +
-                `Using temporary aspect ratio "${this.formatter.options.video.defaultAspectRatio}"`
+                `Using temporary aspect ratio "${aspectRatio}"`
               );
             }
           }
         } else {
-          if (this._isUnclickable && this._computedAspectRatio !== 'auto') {
+          if (this._sizing === 'aspect-ratio' && this._computedAspectRatio !== 'auto') {
             // if aspect-ratio set via blot or css, try to use that ratio for new height instead
-            const ratio = this._computedAspectRatio.match(/(\d+)\s*\/\s*(\d+)/);
-            if (ratio) {
-              try {
-                this._calculatedAspectRatio = parseFloat(ratio[1]) / parseFloat(ratio[2]);
-              } catch { }
-            }
+            this._calculatedAspectRatio = this._parseAspectRatio(this._computedAspectRatio) ?? this._calculatedAspectRatio;
           }
         }
         // get natural width if oversize protection on and resize mode is absolute (not relative) - excludes SVG
         if (this._isImage && !this._useRelativeSize && !this._isSVG && this.formatter.options.resize.imageOversizeProtection) {
           this._naturalWidth = (this._target as HTMLImageElement).naturalWidth;
         }
+        // inline aspect ratio (including any temporary default) restored if a free resize returns to proportional
+        this._preDragAspectRatioStyle = this._target.style.aspectRatio;
+        // size limits from options and the iframe provider, if any
+        this._sizeLimits = getSizeLimits(
+          this.formatter.options, this._target, this.formatter.currentSpec?.specName, this._editorWidth
+        );
+        // capture pre-drag state of any multi-selected targets for proportional group resize
+        this._groupTargets = this._getGroupTargets();
+        // collect snap points and neighbours for guides
+        this._snapper.begin(this._target, this._editorWidth, this._groupTargets.map(groupTarget => groupTarget.element));
         // show size info box
         this._showSizeInfo(true, rect.width, rect.height);
         if (this.debug) {
@@ -303,23 +451,19 @@ export default class ResizeAction extends Action {
       }
     } else {
       if (this._target && this._hasResized) {
-        // round dimensions to whole numbers
-        let width: string = this._roundDimension(this._formattedWidth);
-        this._target.setAttribute('width', width);
+        // round dimensions to whole numbers, set --resize-width style attribute and data-relative-size attribute
+        const width: string = this._finaliseWidth(this._target, this._formattedWidth, this._sizing);
         // set resize mode button selected status if inuded in toolbar
         if (this.formatter.toolbar.buttons['resizeMode']) {
           this.formatter.toolbar.buttons['resizeMode'].selected = this.isRelative;
         }
-        // set --resize-width style attribute and data-relative-size attribute
-        if (this._isUnclickable) {
-          this._target.style.setProperty('--resize-width', `${width}`);
-          this._target.dataset.relativeSize = `${this.isRelative}`
-        } else {
-          if (this.isAligned && this._target.parentElement) {
-            this._target.parentElement.style.setProperty('--resize-width', `${width}`);
-            this._target.parentElement.dataset.relativeSize = `${this.isRelative}`
+        this._groupTargets.forEach(groupTarget => {
+          if (groupTarget.formattedWidth) {
+            this._finaliseWidth(groupTarget.element, groupTarget.formattedWidth, groupTarget.sizing);
           }
-        }
+        });
+        // apply the final dimensions through Quill as a single undo step
+        this._commitHistoryStep();
         if (this.debug) {
           console.debug('ResizeAction resize mode deactivated:', {
             target: this._target,
@@ -329,10 +473,15 @@ export default class ResizeAction extends Action {
           });
         }
       }
-      // clear any cached image natural width
+      // clear any cached image natural width, group state and guides
       this._naturalWidth = undefined;
+      this._groupTargets = [];
+      this._snapper.end();
 
       this.formatter.update();
+      if (this._target && this._hasResized) {
+        this._emitResizeEvent('resize-end');
+      }
       // fade out size info box
       this._showSizeInfo(false);
     }
@@ -352,6 +501,7 @@ export default class ResizeAction extends Action {
       this._dragHandle = event.target;
       this._setCursor(this._dragHandle.style.cursor);
       this._dragStartX = event.clientX;
+      this._dragStartY = event.clientY;
       // enable drag behaviour until pointer up event
       document.addEventListener('pointermove', this._onHandleDrag);
       document.addEventListener('pointerup', this._onHandlePointerUp);
@@ -365,6 +515,11 @@ export default class ResizeAction extends Action {
    * Ensures the new width stays within the editor's bounds and does not shrink below the minimum allowed width.
    * Applies the new width to both the target element and its overlay.
    *
+   * Edge handles, and corner handles while the `resize.freeResizeModifier` key is held, resize the target
+   * freely (see `_onHandleFreeDrag`). Releasing the key during the drag returns to proportional resizing.
+   * The width is snapped to any snap point within range before it is constrained, and alignment guides
+   * are updated once the target is resized (see `ResizeSnapper`).
+   *
    * @param event - The pointer event triggered during dragging.
    */
   private _onHandleDrag = (event: PointerEvent): void => {
@@ -372,7 +527,13 @@ export default class ResizeAction extends Action {
     if (!this._target || !this._dragHandle) return;
 
     // Mark that a resize has occurred
-    this._hasResized = true;
+    this._markResized();
+
+    if (this._isFreeResizeAllowed() && (this._isEdgeHandle(this._dragHandle) ||
+      event[this.formatter.options.resize.freeResizeModifier])) {
+      this._onHandleFreeDrag(event, this._dragHandle);
+      return;
+    }
 
     // Calculate horizontal movement since drag started
     const deltaX = event.clientX - this._dragStartX;
@@ -387,16 +548,65 @@ export default class ResizeAction extends Action {
       isLeftHandle ? this._preDragWidth - deltaX : this._preDragWidth + deltaX
     );
 
-    // Constrain the new width between minimum and editor width
-    const constrainedWidth = Math.max(
-      Math.min(newWidth, this._editorWidth),
-      this.formatter.options.resize.minimumWidthPx
-    );
+    // Constrain the snapped width between minimum and editor width, and by any size limits
+    const constrainedWidth = this._constrainWidth(this._snapper.snap(newWidth));
 
     // Resize the target element to the constrained width
     this._resizeTarget(constrainedWidth);
+    this._updateGuides();
   };
 
+  /**
+   * Handles a free (non-proportional) drag of a resize handle.
+   *
+   * Left and right edge handles change only the width, top and bottom edge handles only the height,
+   * and corner handles change both. The width and height are constrained independently by the size limits,
+   * neither is reduced below `resize.minimumWidthPx`.
+   *
+   * @param event - The pointer event triggered during dragging.
+   * @param handle - The dragged handle.
+   */
+  private _onHandleFreeDrag = (event: PointerEvent, handle: HTMLElement): void => {
+    const deltaX = event.clientX - this._dragStartX;
+    const deltaY = event.clientY - this._dragStartY;
+    const isLeft = [this._topLeftHandle, this._bottomLeftHandle, this._leftHandle].includes(handle);
+    const isTop = [this._topLeftHandle, this._topRightHandle, this._topHandle].includes(handle);
+    const changesWidth = handle !== this._topHandle && handle !== this._bottomHandle;
+    const changesHeight = handle !== this._leftHandle && handle !== this._rightHandle;
+
+    const newWidth = changesWidth
+      ? this._snapper.snap(Math.round(isLeft ? this._preDragWidth - deltaX : this._preDragWidth + deltaX))
+      : this._preDragWidth;
+    const newHeight = changesHeight
+      ? Math.round(isTop ? this._preDragHeight - deltaY : this._preDragHeight + deltaY)
+      : this._preDragHeight;
+
+    const minimum = this.formatter.options.resize.minimumWidthPx;
+    this._resizeTargetFreely(
+      this._constrainWidth(newWidth, minimum, this._sizeLimits, null),
+      Math.max(constrainHeight(newHeight, this._sizeLimits), minimum)
+    );
+    this._updateGuides();
+  }
+
+  /**
+   * Shows the alignment guides for the current width of the target (see `ResizeSnapper.showGuides`).
+   */
+  private _updateGuides = (): void => {
+    if (!this._target || !this._snapper.isActive) return;
+    this._snapper.showGuides(this._target.getBoundingClientRect().width);
+  }
+
+  /**
+   * Determines whether the handle is one of the edge handles used for free resizing.
+   *
+   * @param handle - The resize handle.
+   * @returns {boolean} `true` for the top, right, bottom and left edge handles.
+   */
+  private _isEdgeHandle = (handle: HTMLElement): boolean => {
+    return [this._topHandle, this._rightHandle, this._bottomHandle, this._leftHandle].includes(handle);
+  }
+
   /**
    * Handles the pointer up event on the resize handle.
    * 
@@ -449,14 +659,14 @@ export default class ResizeAction extends Action {
       if (!!this._target && event.touches.length === 2 && this._pinchStartDistance !== null && this._preDragWidth !== null) {
         event.preventDefault(); // Prevent default touch behaviour like scrolling
         if (this._target) {
-          this._hasResized = true;
+          this._markResized();
           // Calculate the current distance between two fingers
           const currentDistance = this._calculateDistance(event.touches[0], event.touches[1]);
           // Calculate the scale factor & new width
           const scale = currentDistance / this._pinchStartDistance;
           let newWidth: number = Math.round(this._preDragWidth * scale);
-          // ensure width does not grow beyond editor width or shrink below 10px
-          newWidth = Math.max(Math.min(newWidth, this._editorWidth), 10);
+          // ensure width does not grow beyond editor width or shrink below 10px, and is within any size limits
+          newWidth = this._constrainWidth(newWidth, 10);
           // resize target + overlay
           this._resizeTarget(newWidth);
         }
@@ -500,6 +710,130 @@ export default class ResizeAction extends Action {
     }
   }
 
+  /**
+   * Handles the double click event on the overlay element.
+   * If the event target is the formatter's overlay, opens the size input in the size info box.
+   *
+   * @param event - The mouse event triggered by the double click.
+   */
+  private _onOverlayDoubleClick = (event: MouseEvent): void => {
+    if (event.target === this.formatter.overlay) {
+      this._openSizeInput();
+    }
+  }
+
+  /**
+   * Handles the keydown event for keyboard resizing (`resize.allowKeyboardResize`).
+   *
+   * - ArrowUp grows and ArrowDown shrinks the width by `resize.keyboardStep` (`resize.keyboardShiftStep` with Shift),
+   *   in px or % as per the resize mode. The height follows the aspect ratio.
+   * - With Alt, the height is changed instead, leaving the width unchanged. Only for targets that can be resized
+   *   freely (`resize.allowFreeResize`), and not while a breakpoint is active. Otherwise Alt is ignored and the
+   *   width is changed as without it.
+   * - ArrowLeft and ArrowRight are not handled, they are left to the caret action to place the caret beside the target.
+   * - The first key press starts a resize, which is ended (and recorded as one undo step) once the keys have been
+   *   released for 500ms, so a burst of key presses is a single change.
+   * - The same limits as a drag resize apply, and the size info box is shown while resizing.
+   *
+   * Only key presses in the editor or on the overlay itself are handled, arrow keys elsewhere on the page (e.g. in a
+   * search box or select outside the editor) are left alone. Ignored while a modal is open, for key presses within
+   * the overlay's controls or toolbar (e.g. toolbar navigation) and with Ctrl or Meta.
+   *
+   * @param event - The keyboard event.
+   */
+  private _onKeyDown = (event: KeyboardEvent): void => {
+    if (!this._target || this.formatter.modalOpen ||
+      (event.code !== 'ArrowUp' && event.code !== 'ArrowDown') ||
+      event.ctrlKey || event.metaKey || !this._isEditorEvent(event)) {
+      return;
+    }
+    // prevent the editor caret moving or the page scrolling
+    event.preventDefault();
+    this._cancelKeyboardResizeTimer();
+    if (!this._keyboardResizing) {
+      this._resizeMode(true);
+      this._keyboardResizing = true;
+      this._keyboardWidth = this._preDragWidth;
+      this._keyboardHeight = this._preDragHeight;
+    }
+    this._markResized();
+
+    const { keyboardStep, keyboardShiftStep, minimumWidthPx } = this.formatter.options.resize;
+    const step = (event.shiftKey ? keyboardShiftStep : keyboardStep) * (event.code === 'ArrowUp' ? 1 : -1);
+    // Alt changes the height only where free resizing is allowed, otherwise it is ignored and the width is changed
+    if (event.altKey && this._isFreeResizeAllowed()) {
+      this._keyboardHeight = Math.max(
+        constrainHeight(Math.round(this._keyboardHeight) + step, this._sizeLimits),
+        minimumWidthPx
+      );
+      this._resizeTargetFreely(this._keyboardWidth, this._keyboardHeight);
+      return;
+    }
+    // step from the rounded current size so that the width stays on whole px or %
+    const newWidth = this._useRelativeSize
+      ? this._editorWidth * (Math.round(100 * this._keyboardWidth / this._editorWidth) + step) / 100
+      : Math.round(this._keyboardWidth) + step;
+    this._keyboardWidth = Math.min(
+      this._constrainWidth(
+        newWidth, minimumWidthPx, this._sizeLimits,
+        this._hasFreeResized ? null : this._calculatedAspectRatio
+      ),
+      this._naturalWidth ?? Infinity
+    );
+    if (this._hasFreeResized) {
+      // keep a height set with Alt during this burst
+      this._resizeTargetFreely(this._keyboardWidth, this._keyboardHeight);
+    } else {
+      this._resizeTarget(this._keyboardWidth);
+      this._keyboardHeight = this._keyboardWidth / this._calculatedAspectRatio;
+    }
+  }
+
+  /**
+   * Determines whether a key event was dispatched within the editor or to the overlay element itself, as opposed
+   * to the overlay's controls, the toolbar (which may be docked outside the overlay) or elsewhere on the page.
+   *
+   * @param event - The event.
+   * @returns {boolean} `true` if the event target is in the Quill root or is the overlay.
+   */
+  private _isEditorEvent = (event: Event): boolean => {
+    const target = this.formatter.getEventTarget(event) as Node | null;
+    return !!target && (target === this.formatter.overlay || this.formatter.quill.root.contains(target));
+  }
+
+  /**
+   * Handles the keyup event for keyboard resizing: ends the resize once no arrow key has been pressed for 500ms.
+   *
+   * @param event - The keyboard event.
+   */
+  private _onKeyUp = (event: KeyboardEvent): void => {
+    if (this._keyboardResizing && (event.code === 'ArrowUp' || event.code === 'ArrowDown')) {
+      this._cancelKeyboardResizeTimer();
+      this._keyboardResizeTimerId = setTimeout(this._endKeyboardResize, 500);
+    }
+  }
+
+  /**
+   * Ends a keyboard resize, applying the final size through Quill as a single undo step.
+   * Nothing is done if no keyboard resize is in progress.
+   */
+  private _endKeyboardResize = (): void => {
+    this._cancelKeyboardResizeTimer();
+    if (!this._keyboardResizing) return;
+    this._keyboardResizing = false;
+    this._resizeMode(false);
+  }
+
+  /**
+   * Cancels the timer that ends a keyboard resize, if one exists.
+   */
+  private _cancelKeyboardResizeTimer = (): void => {
+    if (this._keyboardResizeTimerId !== null) {
+      clearTimeout(this._keyboardResizeTimerId);
+      this._keyboardResizeTimerId = null;
+    }
+  }
+
   /**
    * Resizes the target element to the specified width, maintaining aspect ratio and updating related UI elements.
    *
@@ -508,7 +842,8 @@ export default class ResizeAction extends Action {
    * - Updates the size information display.
    * - Sets the new width and height attributes on the target element.
    * - Applies the width style property to the wrapper if the image is aligned.
-   * - Handles special cases for unclickable elements and absolute sizing.
+   * - Handles special cases for targets sized by aspect ratio and absolute sizing.
+   * - Scales any multi-selected targets by the same factor.
    * - Triggers an update to the overlay position.
    *
    * @param newWidth - The desired new width for the target element.
@@ -523,41 +858,392 @@ export default class ResizeAction extends Action {
       // if image oversize protection on, limit newWidth
       // this._naturalWidth only has value when target is image and protextion is on (set in _resizeMode)
       newWidth = Math.min(this._naturalWidth ?? Infinity, newWidth);
+      // returning from a free resize, restore the pre-drag aspect ratio
+      if (this._hasFreeResized) {
+        this._hasFreeResized = false;
+        this._target.style.aspectRatio = this._preDragAspectRatioStyle;
+      }
       // update size info display
       const newHeight: number = newWidth / this._calculatedAspectRatio;
       this._updateSizeInfo(newWidth, newHeight);
       // set new dimensions on _target
-      if (this.formatter._useRelative(this._target)) {
-        this._formattedWidth = `${100 * newWidth / this._editorWidth}%`;
-      } else {
-        this._formattedWidth = `${newWidth}px`;
+      this._formattedWidth = this._applyWidth(
+        this._target, newWidth, newHeight,
+        this._sizing, this._useRelativeSize, this._computedAspectRatio
+      );
+      // scale multi-selected targets proportionally
+      if (this._groupTargets.length > 0 && this._preDragWidth > 0) {
+        this._resizeGroup(newWidth / this._preDragWidth);
       }
-      this._target.setAttribute('width', this._formattedWidth);
-      this._target.setAttribute('height', 'auto');
-
-      // update width style property to wrapper if image and has imageAlign format
-      // width needed to size wrapper correctly via css
-      // set fixed height to unclickable if using absolute size mode and no aspect ratio given
-      if (this._isUnclickable) {
-        if (!this._useRelativeSize && this._computedAspectRatio === 'auto') {
-          this._target.setAttribute('height', `${newHeight | 0}px`);
-        }
-        this._target.style.setProperty('--resize-width', this._formattedWidth);
+      // updates overlay position
+      this.formatter.update();
+      this._emitResizeEvent('resize');
+    } catch (error) {
+      console.error('ResizeAction: Error resizing target element:', error);
+    }
+  }
+
+  /**
+   * Resizes the target element to the specified width and height without keeping its aspect ratio.
+   *
+   * - Applies the width as for a proportional resize (see `_applyWidth`).
+   * - Images are given an explicit `height` attribute (px).
+   * - Targets sized by aspect ratio (iframes) are given an inline `aspect-ratio` from the new width and height,
+   *   so that the height follows the width for relative sizes. It is kept in the delta by the `aspectRatio` format.
+   * - Updates the size information display with both values, scales any multi-selected targets by the width
+   *   and triggers an update to the overlay position.
+   *
+   * @param newWidth - The new width in px.
+   * @param newHeight - The new height in px.
+   */
+  private _resizeTargetFreely = (newWidth: number, newHeight: number): void => {
+    if (!this._target) return;
+    try {
+      newWidth = Math.min(this._naturalWidth ?? Infinity, newWidth);
+      this._hasFreeResized = true;
+      this._updateSizeInfo(newWidth, newHeight);
+      this._formattedWidth = this._applyWidth(
+        this._target, newWidth, newHeight,
+        this._sizing, this._useRelativeSize, this._computedAspectRatio
+      );
+      if (this._sizing === 'aspect-ratio') {
+        this._target.style.aspectRatio = `${Math.round(newWidth)} / ${Math.round(newHeight)}`;
+        this._target.setAttribute('height', 'auto');
       } else {
-        if (this.isAligned && !!this._target.parentElement) {
-          this._target.parentElement.style.setProperty('--resize-width', this._formattedWidth);
-        }
-        if (!this._useRelativeSize && !this.formatter.options.image.autoHeight) {
-          this._target.setAttribute('height', `${newHeight | 0}px`);
-        }
+        this._target.setAttribute('height', `${Math.round(newHeight)}px`);
+      }
+      if (this._groupTargets.length > 0 && this._preDragWidth > 0) {
+        this._resizeGroup(newWidth / this._preDragWidth);
       }
-      // updates overlay position
       this.formatter.update();
+      this._emitResizeEvent('resize');
     } catch (error) {
       console.error('ResizeAction: Error resizing target element:', error);
     }
   }
 
+  /**
+   * Applies a new width (and height where required) to a target element.
+   *
+   * - Sets the width attribute as % of the editor width or px depending on the target's resize mode.
+   * - Sets height to 'auto', or a fixed px height for absolute sized targets sized by aspect ratio without
+   *   an aspect ratio and for absolute sized images when `image.autoHeight` is false.
+   * - Updates the `--resize-width` style property on the target sized by aspect ratio or on its size wrapper
+   *   (width needed to size wrapper correctly via css).
+   * - While a breakpoint is active, sets the width for the breakpoint in the `data-responsive-widths` attribute
+   *   instead, leaving the width and height attributes unchanged, and refreshes the breakpoint preview.
+   *
+   * @param target - The element to resize.
+   * @param newWidth - The new width in px.
+   * @param newHeight - The new height in px.
+   * @param sizing - The sizing strategy of the target's spec.
+   * @param useRelativeSize - Whether the target uses relative sizing.
+   * @param computedAspectRatio - The computed css aspect-ratio of the target.
+   * @returns The width attribute value applied.
+   */
+  private _applyWidth = (
+    target: HTMLElement,
+    newWidth: number,
+    newHeight: number,
+    sizing: EmbedSizing,
+    useRelativeSize: boolean,
+    computedAspectRatio: string | undefined
+  ): string => {
+    const formattedWidth = useRelativeSize
+      ? `${100 * newWidth / this._editorWidth}%`
+      : `${newWidth}px`;
+    const breakpoint = this.formatter.breakpointPreview.active;
+    if (breakpoint) {
+      this._setBreakpointWidth(target, breakpoint, formattedWidth);
+      this.formatter.breakpointPreview.refresh();
+      return formattedWidth;
+    }
+    target.setAttribute('width', formattedWidth);
+    target.setAttribute('height', 'auto');
+    if (sizing === 'aspect-ratio') {
+      if (!useRelativeSize && computedAspectRatio === 'auto') {
+        target.setAttribute('height', `${newHeight | 0}px`);
+      }
+      target.style.setProperty('--resize-width', formattedWidth);
+    } else {
+      const wrapper = this._getSizeWrapper(target, sizing);
+      if (wrapper) {
+        wrapper.style.setProperty('--resize-width', formattedWidth);
+        wrapper.dataset.relativeSize = `${formattedWidth.endsWith('%')}`;
+      }
+      if (!useRelativeSize && !this.formatter.options.image.autoHeight && sizing === 'wrapper') {
+        target.setAttribute('height', `${newHeight | 0}px`);
+      }
+    }
+    return formattedWidth;
+  }
+
+  /**
+   * Rounds and applies the final width attribute to a target at the end of a resize, and sets the
+   * `--resize-width` style property and `data-relative-size` attribute on the target sized by aspect ratio or its size wrapper.
+   * While a breakpoint is active, the rounded width is set for the breakpoint instead.
+   *
+   * @param target - The resized element.
+   * @param formattedWidth - The last width attribute value applied during the resize.
+   * @param sizing - The sizing strategy of the target's spec.
+   * @returns The rounded width attribute value.
+   */
+  private _finaliseWidth = (target: HTMLElement, formattedWidth: string, sizing: EmbedSizing): string => {
+    const width: string = this._roundDimension(formattedWidth);
+    const breakpoint = this.formatter.breakpointPreview.active;
+    if (breakpoint) {
+      this._setBreakpointWidth(target, breakpoint, width);
+      return width;
+    }
+    target.setAttribute('width', width);
+    if (sizing === 'aspect-ratio') {
+      target.style.setProperty('--resize-width', `${width}`);
+      target.dataset.relativeSize = `${this._isRelative(target)}`;
+    } else {
+      const wrapper = this._getSizeWrapper(target, sizing);
+      if (wrapper) {
+        wrapper.style.setProperty('--resize-width', `${width}`);
+        wrapper.dataset.relativeSize = `${this._isRelative(target)}`;
+      }
+    }
+    return width;
+  }
+
+  /**
+   * Captures the pre-drag state of each additional multi-selected target.
+   * Mirrors the primary target's preparation in `_resizeMode`: resize mode, aspect ratio
+   * (including temporary default aspect ratio for relative sized targets sized by aspect ratio) and natural width
+   * for image oversize protection.
+   *
+   * @returns {GroupTarget[]} The resize state for each group target.
+   */
+  private _getGroupTargets = (): GroupTarget[] => {
+    return this.formatter.multiSelection.targets.map(({ spec, element }) => {
+      const rect = element.getBoundingClientRect();
+      const useRelativeSize = this._useRelativeWidth(element);
+      const computedAspectRatio = getComputedStyle(element).aspectRatio || 'auto';
+      let aspectRatio = rect.width / (rect.height || element.clientHeight + 1);
+      if (spec.sizing === 'aspect-ratio') {
+        if (useRelativeSize && computedAspectRatio === 'auto') {
+          element.style.aspectRatio = this._getDefaultAspectRatio(element);
+        } else if (!useRelativeSize && computedAspectRatio !== 'auto') {
+          aspectRatio = this._parseAspectRatio(computedAspectRatio) ?? aspectRatio;
+        }
+      }
+      const naturalWidth = (
+        element instanceof HTMLImageElement && !useRelativeSize && !this._isSvgImage(element) &&
+        this.formatter.options.resize.imageOversizeProtection
+      ) ? element.naturalWidth : undefined;
+      return {
+        element,
+        sizing: spec.sizing,
+        useRelativeSize,
+        preDragWidth: rect.width,
+        aspectRatio,
+        computedAspectRatio,
+        naturalWidth,
+        sizeLimits: getSizeLimits(this.formatter.options, element, spec.specName, this._editorWidth),
+        formattedWidth: ''
+      };
+    });
+  }
+
+  /**
+   * Resizes each multi-selected target by the given scale factor relative to its pre-drag width.
+   * Each width is constrained between the minimum width and the editor width, by the natural
+   * width where image oversize protection applies, and by the target's size limits.
+   *
+   * @param scale - The primary target's new width divided by its pre-drag width.
+   */
+  private _resizeGroup = (scale: number): void => {
+    this._groupTargets.forEach(groupTarget => {
+      const width = this._constrainWidth(
+        Math.min(Math.round(groupTarget.preDragWidth * scale), groupTarget.naturalWidth ?? Infinity),
+        this.formatter.options.resize.minimumWidthPx,
+        groupTarget.sizeLimits,
+        groupTarget.aspectRatio
+      );
+      groupTarget.formattedWidth = this._applyWidth(
+        groupTarget.element, width, width / groupTarget.aspectRatio,
+        groupTarget.sizing, groupTarget.useRelativeSize, groupTarget.computedAspectRatio
+      );
+    });
+  }
+
+  /**
+   * Returns the aspect ratio to apply temporarily to an iframe without one while resizing in relative mode:
+   * the aspect ratio of the iframe's provider (see `video.providers`), or `video.defaultAspectRatio`.
+   *
+   * @param element - The target element.
+   * @returns {string} The css aspect-ratio value.
+   */
+  private _getDefaultAspectRatio = (element: HTMLElement): string => {
+    return findIframeProvider(this.formatter.options.video.providers, element)?.aspectRatio ??
+      this.formatter.options.video.defaultAspectRatio;
+  }
+
+  /**
+   * Constrains a width to the editor width, the size limits and a minimum width.
+   *
+   * The editor width is applied first, then the size limits (see `constrainWidth`), then the minimum.
+   *
+   * @param width - The width (px).
+   * @param minimum - The minimum width (px), `resize.minimumWidthPx` by default.
+   * @param limits - The size limits, those of the target by default.
+   * @param aspectRatio - The width/height ratio used to apply the height limits, the target's by default.
+   *                      `null` if the height is set independently (the height limits are then not applied).
+   * @returns {number} The constrained width (px).
+   */
+  private _constrainWidth = (
+    width: number,
+    minimum: number = this.formatter.options.resize.minimumWidthPx,
+    limits: SizeLimits = this._sizeLimits,
+    aspectRatio: number | null = this._calculatedAspectRatio
+  ): number => {
+    return Math.max(constrainWidth(Math.min(width, this._editorWidth), limits, aspectRatio ?? undefined), minimum);
+  }
+
+  /**
+   * Parses a css aspect-ratio value such as '16/9' or '16 / 9 auto' into a numeric ratio.
+   *
+   * @param value - The css aspect-ratio value.
+   * @returns The width/height ratio, or null if the value does not contain a ratio.
+   */
+  private _parseAspectRatio = (value: string): number | null => {
+    const ratio = value.match(/(\d+)\s*\/\s*(\d+)/);
+    if (ratio) {
+      const parsed = parseFloat(ratio[1]) / parseFloat(ratio[2]);
+      return isFinite(parsed) ? parsed : null;
+    }
+    return null;
+  }
+
+  /**
+   * Flags that the target has been resized during the current resize session.
+   * On the first call of a session, opens a history step and emits the `resize-start` event with the
+   * pre-drag dimensions.
+   */
+  private _markResized = (): void => {
+    if (!this._hasResized) {
+      this._hasResized = true;
+      this._beginHistoryStep();
+      this._emitResizeEvent('resize-start');
+    }
+  }
+
+  /**
+   * Opens a history step for the current resize session.
+   *
+   * Records the width and height attributes of the target (and group targets) before any change,
+   * cuts off the editor history and starts a scroll batch so the live resize preview applied to the DOM
+   * is not recorded as a series of separate changes.
+   */
+  private _beginHistoryStep = (): void => {
+    if (this._preResizeDimensions || !this._target) return;
+    const quill = this.formatter.quill;
+    // flush any pending changes so they are not merged with the resize
+    quill.update(this.formatter.Quill.sources.USER);
+    this._preResizeDimensions = new Map();
+    [this._target, ...this._groupTargets.map(groupTarget => groupTarget.element)].forEach(element => {
+      this._preResizeDimensions!.set(element, this._getDimensionAttributes(element));
+    });
+    quill.history?.cutoff();
+    quill.scroll.batchStart();
+  }
+
+  /**
+   * Closes the history step opened by `_beginHistoryStep`.
+   *
+   * The final dimensions of each resized element are read from the DOM, the pre-resize attributes are
+   * restored and the scroll batch is ended, then the final dimensions are applied with `formatter.formatBlot`.
+   * The inline aspect ratio is only applied (as the `aspectRatio` format) if a free resize changed it, and the
+   * breakpoint widths (as the `responsiveWidths` format) if a breakpoint width was resized.
+   * The whole resize is recorded as one `user` change and one undo step.
+   */
+  private _commitHistoryStep = (): void => {
+    if (!this._preResizeDimensions) return;
+    const preResizeDimensions = this._preResizeDimensions;
+    this._preResizeDimensions = null;
+    const resized: [HTMLElement, Record<string, string | null>][] = [];
+    preResizeDimensions.forEach((dimensions, element) => {
+      const final = this._getDimensionAttributes(element);
+      const formats: Record<string, string | null> = { width: final.width, height: final.height };
+      if (final.aspectRatio !== dimensions.aspectRatio) {
+        formats.aspectRatio = final.aspectRatio;
+      }
+      if (final.responsiveWidths !== dimensions.responsiveWidths) {
+        formats.responsiveWidths = final.responsiveWidths;
+      }
+      resized.push([element, formats]);
+      this._setDimensionAttributes(element, dimensions);
+    });
+    this.formatter.quill.scroll.batchEnd();
+    this.formatter.withHistoryStep(() => {
+      resized.forEach(([element, formats]) => {
+        if (this.formatter.quill.root.contains(element)) {
+          this.formatter.formatBlot(element, formats);
+        }
+      });
+    });
+    if (this.debug) console.debug('ResizeAction committed resize to history:', resized);
+  }
+
+  /**
+   * Reads the width and height attributes, inline aspect ratio and breakpoint widths of an element.
+   *
+   * @param element - The element to read.
+   * @returns {DimensionAttributes} The attribute values, `null` if not set.
+   */
+  private _getDimensionAttributes = (element: HTMLElement): DimensionAttributes => {
+    return {
+      width: element.getAttribute('width'),
+      height: element.getAttribute('height'),
+      aspectRatio: element.style.aspectRatio || null,
+      responsiveWidths: element.getAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE)
+    };
+  }
+
+  /**
+   * Sets or removes the width and height attributes, inline aspect ratio and breakpoint widths of an element.
+   *
+   * @param element - The element to update.
+   * @param dimensions - The attribute values, `null` removes the attribute.
+   */
+  private _setDimensionAttributes = (element: HTMLElement, dimensions: DimensionAttributes): void => {
+    ([
+      ['width', dimensions.width],
+      ['height', dimensions.height],
+      [RESPONSIVE_WIDTHS_ATTRIBUTE, dimensions.responsiveWidths]
+    ] as const).forEach(([name, value]) => {
+      if (value === null) {
+        element.removeAttribute(name);
+      } else {
+        element.setAttribute(name, value);
+      }
+    });
+    element.style.aspectRatio = dimensions.aspectRatio ?? '';
+  }
+
+  /**
+   * Emits a resize lifecycle event with the target's current rendered dimensions
+   * and the width attribute value applied during this resize session.
+   *
+   * @param event - The resize event to emit.
+   */
+  private _emitResizeEvent = (event: 'resize-start' | 'resize' | 'resize-end'): void => {
+    if (!this._target) return;
+    const rect = this._target.getBoundingClientRect();
+    this.formatter.emit(event, {
+      ...this.formatter.getEventPayload(),
+      width: rect.width,
+      height: rect.height,
+      formattedWidth: event === 'resize-end'
+        ? this._getActiveWidth(this._target) || ''
+        : this._formattedWidth,
+      breakpoint: this.formatter.breakpointPreview.active
+    });
+  }
+
   /**
    * Shows or hides the size information box for the formatter.
    *
@@ -596,6 +1282,8 @@ export default class ResizeAction extends Action {
    *     shows the attribute value and its calculated height, with the displayed size in brackets.
    *   - If the target is an image and its natural dimensions differ from the displayed size,
    *     shows the natural dimensions with the displayed size in brackets.
+   * - With `resize.responsive.enabled`, prefixes the label of the active breakpoint (or the base width), and uses
+   *   the width of the active breakpoint in place of the width attribute.
    * - Updates the `sizeInfo` element in the formatter with the computed size string.
    *
    * @param width - The displayed width of the blot.
@@ -615,7 +1303,7 @@ export default class ResizeAction extends Action {
       size = `${percentage}% (${size})`;
     } else if (!this._hasResized && this._target) {
       // If not resized yet and target exists, check for set width attribute
-      const setWidth = this._target.getAttribute('width');
+      const setWidth = this._getActiveWidth(this._target);
       if (setWidth) {
         // If set width differs from current width, show set width and calculated height
         const setWidthNum = parseFloat(setWidth);
@@ -633,20 +1321,134 @@ export default class ResizeAction extends Action {
       }
     }
 
+    // Prefix the breakpoint being resized
+    if (this.formatter.options.resize.responsive.enabled) {
+      size = `${this.formatter.breakpointPreview.getLabel()}: ${size}`;
+    }
+
     // Update the formatter's size info element with the computed size string
     this.formatter.sizeInfo.innerText = size;
   }
 
+  /**
+   * Returns the displayed size of the target element for the inspect panel.
+   *
+   * The size is shown as "width x height px", corrected for any css transform on the editor.
+   * If the element has a `width` attribute that differs from the displayed width (e.g. a percentage),
+   * the attribute value is shown with the displayed size in brackets.
+   *
+   * @param target - The embed element being inspected.
+   * @returns {InspectInfo[]} A single `size` row.
+   */
+  getInspectInfo = (target: HTMLElement): InspectInfo[] => {
+    const rect = target.getBoundingClientRect();
+    const scale = this.formatter._getContainerScale();
+    const width = Math.round(rect.width / scale.x);
+    const height = Math.round(rect.height / scale.y);
+    let size = `${width} x ${height}px`;
+    const setWidth = target.getAttribute('width');
+    if (setWidth && parseFloat(setWidth) !== width) {
+      size = `${setWidth} (${size})`;
+    }
+    return [{ label: this.formatter.options.inspect.labels.size, value: size }];
+  }
+
   get isRelative(): boolean {
-    return this._target?.getAttribute('width')?.endsWith('%') || false;
+    return this._target ? this._getActiveWidth(this._target)?.endsWith('%') || false : false;
   }
 
   get isAligned(): boolean {
-    if (this._target) {
-      return this._target.hasAttribute('data-blot-align');
-    } else {
-      return false;
+    return this._target ? this._isAligned(this._target) : false;
+  }
+
+  private _isRelative = (target: HTMLElement): boolean => {
+    return target.getAttribute('width')?.endsWith('%') || false;
+  }
+
+  private _isAligned = (target: HTMLElement): boolean => {
+    return target.hasAttribute('data-blot-align');
+  }
+
+  /**
+   * Returns the width of a target at the active breakpoint (see `getResponsiveWidth`), or its width attribute
+   * if no breakpoint is active.
+   *
+   * @param target - The target element.
+   * @returns {string | null} The width, or `null` if the target has no width.
+   */
+  private _getActiveWidth = (target: HTMLElement): string | null => {
+    return getResponsiveWidth(
+      target, this.formatter.options.resize.responsive.breakpoints, this.formatter.breakpointPreview.active
+    );
+  }
+
+  /**
+   * Determines the resize mode of a target as `formatter._useRelative`, using the unit of its width at the
+   * active breakpoint if a breakpoint is active and the resize mode can be changed.
+   *
+   * @param target - The target element.
+   * @returns {boolean} `true` to resize the target with relative (%) sizes.
+   */
+  private _useRelativeWidth = (target: HTMLElement): boolean => {
+    const width = this.formatter.breakpointPreview.active && this.formatter.options.resize.allowResizeModeChange
+      ? this._getActiveWidth(target)
+      : null;
+    return width ? width.endsWith('%') : this.formatter._useRelative(target);
+  }
+
+  /**
+   * Sets the width of a breakpoint in the target's `data-responsive-widths` attribute.
+   *
+   * @param target - The target element.
+   * @param breakpoint - The breakpoint name.
+   * @param width - The width in px or %.
+   */
+  private _setBreakpointWidth = (target: HTMLElement, breakpoint: string, width: string): void => {
+    target.setAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE, setResponsiveWidth(
+      target.getAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE),
+      breakpoint,
+      width,
+      this.formatter.options.resize.responsive.breakpoints
+    ));
+  }
+
+  /**
+   * Determines whether the target can currently be resized freely: it can be resized freely
+   * (`resize.allowFreeResize`, images and targets sized by aspect ratio) and no breakpoint is active
+   * (breakpoints only store a width).
+   *
+   * @returns {boolean} `true` if free resizing is allowed.
+   */
+  private _isFreeResizeAllowed = (): boolean => {
+    return this._canResizeFreely && !this.formatter.breakpointPreview.active;
+  }
+
+  /**
+   * Shows the edge handles if free resizing is currently allowed, hides them otherwise.
+   */
+  private _showEdgeHandles = (): void => {
+    const display = this._isFreeResizeAllowed() ? '' : 'none';
+    [this._topHandle, this._rightHandle, this._bottomHandle, this._leftHandle].forEach(handle => {
+      handle.style.display = display;
+    });
+  }
+
+  /**
+   * Returns the element sized by css from the target's width: the wrapper span of an aligned image,
+   * the figure of a captioned image, or the element itself with `width` sizing (e.g. native video and audio).
+   *
+   * @param target - The resized element.
+   * @param sizing - The sizing strategy of the target's spec.
+   * @returns The wrapper element, or `null` if the target has none.
+   */
+  private _getSizeWrapper = (target: HTMLElement, sizing: EmbedSizing): HTMLElement | null => {
+    if (sizing === 'width') {
+      return target;
     }
+    if (this._isAligned(target) && target.parentElement) {
+      return target.parentElement;
+    }
+    return target.closest<HTMLElement>('figure.ql-figure');
   }
 
   /**
@@ -682,9 +1484,11 @@ export default class ResizeAction extends Action {
 
   /**
    * Swaps the resize mode of the target element between relative (percentage-based) and absolute (pixel-based) sizing.
-   * Updates the _target's width and height attributes, as well as relevant CSS custom properties and data attributes,
+   * Applies the _target's new width and height through Quill as a single undo step, and updates the relevant
+   * CSS custom properties and data attributes,
    * depending on the current resize mode and alignment. Also updates the toolbar button state and optionally displays
    * size information.
+   * While a breakpoint is active, only the width of the breakpoint is changed (the `responsiveWidths` format).
    *
    * @param showInfo - If true, displays size information after resizing.
    */
@@ -698,22 +1502,36 @@ export default class ResizeAction extends Action {
       let newWidth, newHeight: string;
       if (this.isRelative) {
         newWidth = `${Math.round(rect.width)}px`;
-        newHeight = this.formatter.options.image.autoHeight 
-          ? 'auto' 
+        newHeight = this.formatter.options.image.autoHeight || this._sizing === 'width'
+          ? 'auto'
           : `${Math.round(rect.height)}px`;
       } else {
         newWidth = `${Math.round(100 * rect.width / this._editorWidth)}%`;
         newHeight = 'auto';
       }
-      this._target.setAttribute('width', `${newWidth}`);
-      this._target.setAttribute('height', `${newHeight}`);
-      if (this.formatter.currentSpec?.isUnclickable) {
+      const target: HTMLElement = this._target;
+      const breakpoint = this.formatter.breakpointPreview.active;
+      this.formatter.withHistoryStep(() => {
+        this.formatter.formatBlot(target, breakpoint
+          ? {
+            responsiveWidths: setResponsiveWidth(
+              target.getAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE), breakpoint, newWidth,
+              this.formatter.options.resize.responsive.breakpoints
+            )
+          }
+          : { width: newWidth, height: newHeight }
+        );
+      });
+      if (breakpoint) {
+        // breakpoint widths are applied by the preview css
+      } else if (this._sizing === 'aspect-ratio') {
         this._target.style.setProperty('--resize-width', `${newWidth}`);
         this._target.dataset.relativeSize = `${this.isRelative}`;
       } else {
-        if (this.isAligned && this._target.parentElement) {
-          this._target.parentElement.style.setProperty('--resize-width', `${newWidth}`);
-          this._target.parentElement.dataset.relativeSize = `${this.isRelative}`;
+        const wrapper = this._getSizeWrapper(this._target, this._sizing);
+        if (wrapper) {
+          wrapper.style.setProperty('--resize-width', `${newWidth}`);
+          wrapper.dataset.relativeSize = `${this.isRelative}`;
         }
       }
       this.formatter.toolbar.buttons['resizeMode'].selected = this.isRelative;
@@ -733,6 +1551,280 @@ export default class ResizeAction extends Action {
     }
   }
 
+  /**
+   * Creates a toolbar button for switching the breakpoint being resized and previewed (`resize.responsive`).
+   * The button is shown as selected while a breakpoint is active.
+   *
+   * @returns {ToolbarButton} The configured breakpoint toolbar button.
+   */
+  private _createBreakpointButton = (): ToolbarButton => {
+    const button = new ToolbarButton(
+      'breakpoint',
+      this._onBreakpointClickHandler,
+      this.formatter.options.toolbar,
+    );
+    button.preselect = () => {
+      return this.formatter.breakpointPreview.active !== null;
+    }
+    return button
+  }
+
+  /**
+   * Handles the click event for the breakpoint control.
+   * Stops the event from propagating further and switches to the next breakpoint.
+   *
+   * @param event - The event object triggered by the click.
+   */
+  private _onBreakpointClickHandler: EventListener = (event: Event): void => {
+    event.stopImmediatePropagation();
+    this._switchBreakpoint();
+  }
+
+  /**
+   * Switches the breakpoint being resized and previewed in the editor to the next breakpoint: from the base width
+   * to each breakpoint in `resize.responsive.breakpoints` (smallest first), then back to the base width.
+   *
+   * Ends any keyboard resize first, updates the toolbar button states and edge handles, and shows the size info
+   * with the label of the new breakpoint.
+   */
+  private _switchBreakpoint = (): void => {
+    this._endKeyboardResize();
+    const preview = this.formatter.breakpointPreview;
+    const breakpoints = sortBreakpoints(this.formatter.options.resize.responsive.breakpoints);
+    const index = breakpoints.findIndex(breakpoint => breakpoint.name === preview.active);
+    preview.setActive(breakpoints[index + 1]?.name ?? null);
+    if (this.formatter.toolbar.buttons['breakpoint']) {
+      this.formatter.toolbar.buttons['breakpoint'].selected = preview.active !== null;
+    }
+    if (this.formatter.toolbar.buttons['resizeMode']) {
+      this.formatter.toolbar.buttons['resizeMode'].selected = this.isRelative;
+    }
+    if (this._canResizeFreely) {
+      this._showEdgeHandles();
+    }
+    this.formatter.update();
+    if (this._target) {
+      const rect: DOMRect = this._target.getBoundingClientRect();
+      this._showSizeInfo(true, rect.width, rect.height);
+      this._showSizeInfo(false);
+    }
+    if (this.debug) {
+      console.debug('ResizeAction breakpoint switched:', preview.active);
+    }
+  }
+
+  /**
+   * Opens the size input in the size info box, filled with the current displayed size of the target.
+   *
+   * - The width is shown in the current resize mode unit (px or %), the height in px.
+   * - The unit selector is only enabled if `resize.allowResizeModeChange` is set.
+   * - Width and height are linked by the current aspect ratio unless the target can be resized freely.
+   * - The input is marked as a modal so that key presses are not handled by the delete and caret actions.
+   */
+  private _openSizeInput = (): void => {
+    if (!this._target) return;
+    this._cancelSizeInfoTimer();
+    this._editorStyle = getComputedStyle(this.formatter.quill.root);
+    this._editorWidth = this.formatter.quill.root.clientWidth -
+      parseFloat(this._editorStyle.paddingLeft) -
+      parseFloat(this._editorStyle.paddingRight);
+    const rect: DOMRect = this._target.getBoundingClientRect();
+    this._sizeInputAspectRatio = rect.height ? rect.width / rect.height : 1;
+
+    const sizeInput = this._sizeInput ?? (this._sizeInput = this._createSizeInput());
+    sizeInput.unit.value = this._useRelativeWidth(this._target) ? '%' : 'px';
+    sizeInput.unit.disabled = !this.formatter.options.resize.allowResizeModeChange;
+    this._setSizeInputWidth(rect.width);
+    sizeInput.height.value = `${Math.round(rect.height)}`;
+
+    this.formatter.sizeInfo.replaceChildren(sizeInput.form);
+    this.formatter.sizeInfo.style.transition = '';
+    this.formatter.sizeInfo.style.opacity = '1';
+    sizeInput.width.focus();
+    sizeInput.width.select();
+  }
+
+  /**
+   * Closes the size input, restoring the size info text, and fades out the size info box.
+   * Nothing is changed if the size input is not open.
+   */
+  private _closeSizeInput = (): void => {
+    if (!this._sizeInput?.form.isConnected) return;
+    this._sizeInput.form.remove();
+    if (this._target) {
+      const rect: DOMRect = this._target.getBoundingClientRect();
+      this._updateSizeInfo(rect.width, rect.height);
+    }
+    this._showSizeInfo(false);
+  }
+
+  /**
+   * Resizes the target to the given size through the same path as a drag resize.
+   *
+   * The width is constrained by `resize.minimumWidthPx`, the editor width, the size limits and
+   * `resize.imageOversizeProtection`. If the target can be resized freely and the height differs from the
+   * proportional height, the target is resized freely (the height constrained by the size limits).
+   * The resize is recorded as a single undo step and emits the resize events.
+   *
+   * @param width - The width: a number (px), or a string in px (`'320px'`) or % of the editor width (`'50%'`).
+   *                With `resize.allowResizeModeChange`, the unit sets the resize mode, otherwise the width is
+   *                converted to the mode set by the options.
+   * @param height - The height (px). Ignored unless the target can be resized freely (`resize.allowFreeResize`)
+   *                 and no breakpoint is active.
+   */
+  setSize = (width: SizeConstraint, height: number | null = null): void => {
+    if (!this._target) return;
+    const useRelativeSize = this.formatter.options.resize.allowResizeModeChange
+      ? typeof width === 'string' && width.trim().endsWith('%')
+      : undefined;
+    this._resizeMode(true, useRelativeSize);
+    const widthPx = parseSizeConstraint(width, this._editorWidth);
+    if (widthPx === null || widthPx <= 0) {
+      this._resizeMode(false);
+      return;
+    }
+    this._markResized();
+    const minimum = this.formatter.options.resize.minimumWidthPx;
+    const constrainedWidth = this._constrainWidth(widthPx);
+    if (this._isFreeResizeAllowed() && height !== null && height > 0 &&
+      Math.abs(height - constrainedWidth / this._calculatedAspectRatio) >= 1) {
+      this._resizeTargetFreely(
+        this._constrainWidth(widthPx, minimum, this._sizeLimits, null),
+        Math.max(constrainHeight(height, this._sizeLimits), minimum)
+      );
+    } else {
+      this._resizeTarget(constrainedWidth);
+    }
+    this._resizeMode(false);
+  }
+
+  /**
+   * Applies the size entered in the size input with `setSize`.
+   */
+  private _applySizeInput = (): void => {
+    if (!this._target || !this._sizeInput) return;
+    const width = parseFloat(this._sizeInput.width.value);
+    const height = parseFloat(this._sizeInput.height.value);
+    const unit = this._sizeInput.unit.value;
+    this._closeSizeInput();
+    if (!(width > 0)) return;
+    this.setSize(`${width}${unit}`, height > 0 ? height : null);
+  }
+
+  /**
+   * Sets the width input from a width in px, converted to % if the relative unit is selected.
+   *
+   * @param widthPx - The width (px).
+   */
+  private _setSizeInputWidth = (widthPx: number): void => {
+    if (!this._sizeInput) return;
+    this._sizeInput.width.value = this._sizeInput.unit.value === '%'
+      ? `${Math.round(100 * widthPx / this._editorWidth)}`
+      : `${Math.round(widthPx)}`;
+  }
+
+  /**
+   * Returns the width entered in the width input in px.
+   *
+   * @returns {number} The width (px), `NaN` if the input is not a number.
+   */
+  private _getSizeInputWidth = (): number => {
+    if (!this._sizeInput) return NaN;
+    const width = parseFloat(this._sizeInput.width.value);
+    return this._sizeInput.unit.value === '%' ? this._editorWidth * width / 100 : width;
+  }
+
+  /**
+   * Creates the size input form with width and height number inputs and a px/% unit selector.
+   * Inputs and selector are styled by `resize.sizeInputStyle` and labelled by `resize.sizeInputLabels`.
+   *
+   * Enter submits the size, Escape or moving the focus out of the form cancels it.
+   *
+   * @returns {SizeInput} The form and its controls.
+   */
+  private _createSizeInput = (): SizeInput => {
+    const { sizeInputStyle, sizeInputLabels } = this.formatter.options.resize;
+    const form = document.createElement('form');
+    form.setAttribute('data-blot-formatter-modal', '');
+    Object.assign(form.style, { display: 'flex', alignItems: 'center', margin: '0' });
+
+    const createNumberInput = (name: string, label: string): HTMLInputElement => {
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.name = name;
+      input.min = '1';
+      input.step = 'any';
+      input.setAttribute('aria-label', label);
+      return input;
+    }
+    const width = createNumberInput('width', sizeInputLabels.width);
+    const height = createNumberInput('height', sizeInputLabels.height);
+    const unit = document.createElement('select');
+    unit.name = 'unit';
+    unit.setAttribute('aria-label', sizeInputLabels.unit);
+    ['px', '%'].forEach(value => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = value;
+      unit.appendChild(option);
+    });
+    [width, height, unit].forEach(control => {
+      if (sizeInputStyle) {
+        Object.assign(control.style, sizeInputStyle);
+      }
+      control.style.userSelect = 'text';
+    });
+    unit.style.width = 'auto';
+    // submitted with Enter
+    const submitButton = document.createElement('button');
+    submitButton.type = 'submit';
+    submitButton.hidden = true;
+    form.append(width, 'x', height, unit, submitButton);
+
+    // keep width and height proportional unless the target can be resized freely
+    width.addEventListener('input', () => {
+      const widthPx = this._getSizeInputWidth();
+      if (!this._isFreeResizeAllowed() && widthPx > 0) {
+        height.value = `${Math.round(widthPx / this._sizeInputAspectRatio)}`;
+      }
+    });
+    height.addEventListener('input', () => {
+      const heightPx = parseFloat(height.value);
+      if (!this._isFreeResizeAllowed() && heightPx > 0) {
+        this._setSizeInputWidth(heightPx * this._sizeInputAspectRatio);
+      }
+    });
+    // convert the width to the newly selected unit
+    let previousUnit = unit.value;
+    unit.addEventListener('focus', () => { previousUnit = unit.value; });
+    unit.addEventListener('change', () => {
+      const value = parseFloat(width.value);
+      if (value > 0) {
+        this._setSizeInputWidth(previousUnit === '%' ? this._editorWidth * value / 100 : value);
+      }
+      previousUnit = unit.value;
+    });
+    form.addEventListener('submit', (event: SubmitEvent) => {
+      event.preventDefault();
+      this._applySizeInput();
+    });
+    form.addEventListener('keydown', (event: KeyboardEvent) => {
+      // keep key presses from the document level action handlers (caret, delete)
+      event.stopPropagation();
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        this._closeSizeInput();
+      }
+    });
+    form.addEventListener('keyup', (event: KeyboardEvent) => event.stopPropagation());
+    form.addEventListener('focusout', (event: FocusEvent) => {
+      if (!(event.relatedTarget instanceof Node && form.contains(event.relatedTarget))) {
+        this._closeSizeInput();
+      }
+    });
+    return { form, width, height, unit };
+  }
+
   /**
    * Initiates a timer to fade out the size information element after a delay.
    * Sets the opacity of the `sizeInfo` element to 0 with a transition effect after 1 second.
@@ -785,7 +1877,7 @@ export default class ResizeAction extends Action {
   }
 
   /**
-   * Determines whether the target image is an SVG image.
+   * Determines whether the target image (defaults to the primary target) is an SVG image.
    *
    * Checks if the target is an HTMLImageElement and then verifies:
    * - If the image source is a data URL, it checks for the 'image/svg+xml' MIME type.
@@ -793,12 +1885,12 @@ export default class ResizeAction extends Action {
    *
    * @returns {boolean} True if the target image is an SVG, otherwise false.
    */
-  private _isSvgImage = (): boolean => {
-    if (this._target instanceof HTMLImageElement) {
-      if (this._target.src.startsWith('data:image/')) {
-        return this._target.src.includes('image/svg+xml');
+  private _isSvgImage = (target: HTMLElement | null | undefined = this._target): boolean => {
+    if (target instanceof HTMLImageElement) {
+      if (target.src.startsWith('data:image/')) {
+        return target.src.includes('image/svg+xml');
       }
-      return this._target.src.endsWith('.svg');
+      return target.src.endsWith('.svg');
     }
     return false;
   }
@@ -0,0 +1,212 @@
+import BlotFormatter from '../BlotFormatter';
+
+/**
+ * A width the resize can be snapped to, with the element (or text column) it lines up with, if any.
+ */
+interface SnapNeighbour {
+  element: HTMLElement | null;
+  width: number;
+}
+
+/**
+ * Snaps resize widths to preset sizes and shows guide lines when the resized blot lines up with its neighbours.
+ *
+ * Used by `ResizeAction` while a resize handle is dragged. Snap points (all in px) are built from the
+ * `resize.snap` options when the drag starts:
+ * - `relativeSizes`: percentages of the editor width (e.g. 25, 33, 50, 66, 75, 100),
+ * - `pixelSizes`: fixed widths,
+ * - `pixelStep`: multiples of a width,
+ * - the widths of neighbouring blots (`neighbourSelector`) visible in the editor, and the text column (editor width).
+ *
+ * A width within `thresholdPx` of a snap point is pulled to it (nearest wins). With `showGuides` set, dashed guide
+ * lines are added to the overlay at the edges of any neighbour (or the text column) with the same width as the target.
+ *
+ * @remarks
+ * - Snapping requires `resize.snap.enabled`, guides are shown independently with `resize.snap.showGuides`.
+ * - Only the width is snapped. The height follows the aspect ratio, or is left unchanged by a free resize.
+ * - Neighbours are collected once per drag (`begin`), guide positions are read on each update so they follow
+ *   the overlay as it moves.
+ *
+ * @example
+ * ```typescript
+ * const snapper = new ResizeSnapper(formatter);
+ * snapper.begin(target, editorWidth);
+ * const width = snapper.snap(rawWidth);
+ * // ... resize target
+ * snapper.showGuides(width);
+ * // ... on drag end
+ * snapper.end();
+ * ```
+ */
+export default class ResizeSnapper {
+  formatter: BlotFormatter;
+  private _neighbours: SnapNeighbour[] = [];
+  private _snapPoints: number[] = [];
+  private _editorWidth: number = 0;
+  private _guides: HTMLElement[] = [];
+  private debug: boolean;
+
+  constructor(formatter: BlotFormatter) {
+    this.formatter = formatter;
+    this.debug = formatter.options?.debug ?? false;
+  }
+
+  /**
+   * Determines whether snapping or guides are enabled in the options.
+   */
+  get isActive(): boolean {
+    const { enabled, showGuides } = this.formatter.options.resize.snap;
+    return enabled || showGuides;
+  }
+
+  /**
+   * Collects the snap points and neighbours for a drag of the target.
+   *
+   * @param target - The element being resized.
+   * @param editorWidth - The usable editor width (px), used for relative snap sizes and the text column.
+   * @param exclude - Other elements being resized with the target (multi-selection), not used as neighbours.
+   */
+  begin = (target: HTMLElement, editorWidth: number, exclude: HTMLElement[] = []): void => {
+    this.end();
+    if (!this.isActive) return;
+    const options = this.formatter.options.resize.snap;
+    this._editorWidth = editorWidth;
+    this._neighbours = [
+      { element: null, width: editorWidth },
+      ...this._getNeighbours(target, exclude)
+    ];
+    this._snapPoints = [
+      ...options.relativeSizes.map(percent => editorWidth * percent / 100),
+      ...options.pixelSizes,
+      ...this._neighbours.map(neighbour => neighbour.width)
+    ];
+    if (this.debug) {
+      console.debug('ResizeSnapper snap points:', this._snapPoints, 'neighbours:', this._neighbours);
+    }
+  }
+
+  /**
+   * Returns the width pulled to the nearest snap point within `resize.snap.thresholdPx`.
+   *
+   * @param width - The width (px) from the drag.
+   * @returns {number} The snapped width, or the width unchanged if snapping is disabled or no snap point is close enough.
+   */
+  snap = (width: number): number => {
+    const { enabled, pixelStep, thresholdPx } = this.formatter.options.resize.snap;
+    if (!enabled) return width;
+    const candidates = pixelStep > 0
+      ? [...this._snapPoints, Math.round(width / pixelStep) * pixelStep]
+      : this._snapPoints;
+    let snapped = width;
+    let distance = thresholdPx;
+    candidates.forEach(point => {
+      const pointDistance = Math.abs(point - width);
+      if (pointDistance <= distance) {
+        snapped = point;
+        distance = pointDistance;
+      }
+    });
+    return Math.round(snapped);
+  }
+
+  /**
+   * Shows guide lines in the overlay at the edges of each neighbour (or the text column) the same width as the target,
+   * spanning vertically from the neighbour to the overlay. Existing guides are removed first.
+   *
+   * @param width - The current width (px) of the target.
+   */
+  showGuides = (width: number): void => {
+    this._removeGuides();
+    if (!this.formatter.options.resize.snap.showGuides) return;
+    const overlay = this.formatter.overlay;
+    // guides are positioned inside the overlay border
+    const overlayRect = overlay.getBoundingClientRect();
+    const originX = overlayRect.left + overlay.clientLeft;
+    const originY = overlayRect.top + overlay.clientTop;
+    this._neighbours
+      .filter(neighbour => Math.abs(neighbour.width - width) < 1)
+      .forEach(neighbour => {
+        const rect = neighbour.element
+          ? neighbour.element.getBoundingClientRect()
+          : this._getTextColumnRect();
+        const top = Math.min(rect.top, overlayRect.top);
+        const bottom = Math.max(rect.bottom, overlayRect.bottom);
+        [rect.left, rect.right].forEach(x => {
+          this._guides.push(this._createGuide(x - originX, top - originY, bottom - top));
+        });
+      });
+    overlay.append(...this._guides);
+  }
+
+  /**
+   * Removes any guides and clears the snap points and neighbours collected for the drag.
+   */
+  end = (): void => {
+    this._removeGuides();
+    this._neighbours = [];
+    this._snapPoints = [];
+  }
+
+  /**
+   * Returns the visible elements in the editor matching `resize.snap.neighbourSelector`, other than the target
+   * and any excluded elements, with their current widths.
+   *
+   * @param target - The element being resized.
+   * @param exclude - Elements not used as neighbours.
+   * @returns {SnapNeighbour[]} The neighbours.
+   */
+  private _getNeighbours = (target: HTMLElement, exclude: HTMLElement[]): SnapNeighbour[] => {
+    const root: HTMLElement = this.formatter.quill.root;
+    const rootRect = root.getBoundingClientRect();
+    return Array.from(root.querySelectorAll<HTMLElement>(this.formatter.options.resize.snap.neighbourSelector))
+      .filter(element => element !== target && !exclude.includes(element))
+      .map(element => ({ element, rect: element.getBoundingClientRect() }))
+      .filter(({ rect }) =>
+        rect.width > 0 && rect.bottom > rootRect.top && rect.top < rootRect.bottom
+      )
+      .map(({ element, rect }) => ({ element, width: rect.width }));
+  }
+
+  /**
+   * Returns the visible rect of the text column: the editor root less its horizontal padding.
+   *
+   * @returns {DOMRect} The text column rect in viewport coordinates.
+   */
+  private _getTextColumnRect = (): DOMRect => {
+    const root = this.formatter.quill.root;
+    const rootRect = root.getBoundingClientRect();
+    const left = rootRect.left + root.clientLeft + parseFloat(getComputedStyle(root).paddingLeft);
+    return new DOMRect(left, rootRect.top, this._editorWidth, rootRect.height);
+  }
+
+  /**
+   * Creates a vertical guide line positioned relative to the overlay.
+   *
+   * @param left - The horizontal position (px) relative to the overlay.
+   * @param top - The top (px) relative to the overlay.
+   * @param height - The height (px) of the guide.
+   * @returns {HTMLElement} The guide element.
+   */
+  private _createGuide = (left: number, top: number, height: number): HTMLElement => {
+    const { guideClassName, guideStyle } = this.formatter.options.resize.snap;
+    const guide = document.createElement('div');
+    guide.classList.add(guideClassName);
+    if (guideStyle) {
+      Object.assign(guide.style, guideStyle);
+    }
+    Object.assign(guide.style, {
+      left: `${left}px`,
+      top: `${top}px`,
+      height: `${height}px`
+    });
+    return guide;
+  }
+
+  /**
+   * Removes the guide lines from the overlay.
+   */
+  private _removeGuides = (): void => {
+    this._guides.forEach(guide => guide.remove());
+    this._guides = [];
+  }
+}
@@ -0,0 +1,93 @@
+import type { Options, SizeConstraint, SizeConstraints } from '../Options';
+import { findIframeProvider } from '../providers/IframeProviders';
+
+/**
+ * The resolved size limits (px) of a target, from the `resize` size constraints and its iframe provider.
+ * Unset limits are 0 (minimums) or `Infinity` (maximums).
+ */
+export interface SizeLimits {
+  minWidth: number;
+  maxWidth: number;
+  minHeight: number;
+  maxHeight: number;
+}
+
+/**
+ * Converts a size constraint to px.
+ *
+ * @param value - The constraint: a number (px), or a string in px (`'960px'`) or % of the editor width (`'50%'`).
+ * @param editorWidth - The usable editor width (px), used for % values.
+ * @returns {number | null} The constraint in px, or `null` if not set or not a valid size.
+ */
+export const parseSizeConstraint = (value: SizeConstraint | null | undefined, editorWidth: number): number | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return value;
+  const size = parseFloat(value);
+  if (isNaN(size)) return null;
+  return value.trim().endsWith('%') ? editorWidth * size / 100 : size;
+}
+
+/**
+ * Returns the size limits of a target.
+ *
+ * The `resize.maxWidth`, `minHeight` and `maxHeight` options apply to all specs, and are replaced by any
+ * set in `resize.specConstraints` for the spec name (which may also set a `minWidth`). Iframe provider width
+ * limits (see `video.providers`) are combined with these, the stricter limit applies.
+ * `resize.minimumWidthPx` and the editor width are applied separately by the resize action.
+ *
+ * @param options - The formatter options.
+ * @param element - The target element.
+ * @param specName - The name of the spec handling the target, if known.
+ * @param editorWidth - The usable editor width (px), used for % values.
+ * @returns {SizeLimits} The size limits in px.
+ */
+export const getSizeLimits = (
+  options: Options,
+  element: HTMLElement,
+  specName: string | null | undefined,
+  editorWidth: number
+): SizeLimits => {
+  const { maxWidth, minHeight, maxHeight, specConstraints } = options.resize;
+  const constraints: SizeConstraints = {
+    maxWidth, minHeight, maxHeight,
+    ...(specName ? specConstraints[specName] : undefined)
+  };
+  const provider = element.tagName === 'IFRAME'
+    ? findIframeProvider(options.video.providers, element)
+    : null;
+  return {
+    minWidth: Math.max(parseSizeConstraint(constraints.minWidth, editorWidth) ?? 0, provider?.minWidthPx ?? 0),
+    maxWidth: Math.min(parseSizeConstraint(constraints.maxWidth, editorWidth) ?? Infinity, provider?.maxWidthPx ?? Infinity),
+    minHeight: parseSizeConstraint(constraints.minHeight, editorWidth) ?? 0,
+    maxHeight: parseSizeConstraint(constraints.maxHeight, editorWidth) ?? Infinity
+  };
+}
+
+/**
+ * Constrains a width to the size limits. If an aspect ratio is given, the height limits are applied
+ * to the height at that aspect ratio. Minimums take precedence over maximums.
+ *
+ * @param width - The width (px).
+ * @param limits - The size limits.
+ * @param aspectRatio - The width/height ratio kept by the resize, omit if the height is set independently.
+ * @returns {number} The constrained width (px).
+ */
+export const constrainWidth = (width: number, limits: SizeLimits, aspectRatio?: number): number => {
+  let { minWidth, maxWidth } = limits;
+  if (aspectRatio && isFinite(aspectRatio)) {
+    minWidth = Math.max(minWidth, limits.minHeight * aspectRatio);
+    maxWidth = Math.min(maxWidth, limits.maxHeight * aspectRatio);
+  }
+  return Math.max(Math.min(width, maxWidth), minWidth);
+}
+
+/**
+ * Constrains a height to the size limits. Minimums take precedence over maximums.
+ *
+ * @param height - The height (px).
+ * @param limits - The size limits.
+ * @returns {number} The constrained height (px).
+ */
+export const constrainHeight = (height: number, limits: SizeLimits): number => {
+  return Math.max(Math.min(height, limits.maxHeight), limits.minHeight);
+}
@@ -85,12 +85,14 @@ export default class AlignAction extends Action {
    *
    * This event handler determines which alignment action was triggered by the user,
    * retrieves the corresponding alignment configuration, and applies or clears the alignment
-   * on the currently selected blot in the editor. It also updates the toolbar button states
-   * and logs debug information if enabled.
+   * on the currently selected blot in the editor. The same result is applied to any additional
+   * multi-selected blots, recorded as a single undo step. It also updates the toolbar button states,
+   * emits the `align-change` event and logs debug information if enabled.
    *
    * @param event - The click event triggered by the user on a toolbar button.
    */
   onClickHandler: EventListener = (event: Event): void => {
+    let change = null as { alignment: string | null, previous: string | null } | null;
     const button: HTMLElement | null = (event.target as HTMLElement)
       .closest(`span.${this.formatter.options.toolbar.buttonClassName}`);
     if (!!button) {
@@ -98,22 +100,38 @@ export default class AlignAction extends Action {
       const targetBlot = this.formatter.currentSpec?.getTargetBlot();
       if (!!action && !!targetBlot) {
         const alignment: Alignment = this.aligner.alignments[action];
+        const previous: string | null = this.aligner.getAlignment(targetBlot) || null;
         this._clearButtons();
-        if (this.aligner.isAligned(targetBlot, alignment)) {
-          this.aligner.clear(targetBlot);
-          if (this.debug) {
-            console.debug('AlignAction clear alignment:', action, targetBlot);
+        // align all selected blots as a single undo step
+        this.formatter.withHistoryStep(() => {
+          if (this.aligner.isAligned(targetBlot, alignment)) {
+            this.aligner.clear(targetBlot);
+            this.formatter.multiSelection.getBlots().forEach(blot => this.aligner.clear(blot));
+            change = { alignment: null, previous };
+            if (this.debug) {
+              console.debug('AlignAction clear alignment:', action, targetBlot);
+            }
+          } else {
+            this.aligner.setAlignment(targetBlot, action);
+            this.formatter.multiSelection.getBlots().forEach(blot => {
+              // setAlignment toggles - skip blots that already have this alignment
+              if (!this.aligner.isAligned(blot, alignment)) {
+                this.aligner.setAlignment(blot, action);
+              }
+            });
+            this.alignButtons[action].selected = true;
+            change = { alignment: action, previous };
+            if (this.debug) {
+              console.debug('AlignAction set alignment:', action, targetBlot);
+            }
           }
-        } else {
-          this.aligner.setAlignment(targetBlot, action);
-          this.alignButtons[action].selected = true;
-          if (this.debug) {
-            console.debug('AlignAction set alignment:', action, targetBlot);
-          }
-        }
+        });
       }
     }
     this.formatter.update();
+    if (change) {
+      this.formatter.emit('align-change', { ...this.formatter.getEventPayload(), ...change });
+    }
   }
 
   /**
@@ -3,6 +3,7 @@ import { Aligner } from './Aligner';
 import type { Alignment } from './Alignment';
 import type { Blot } from '../../specs/BlotSpec';
 import type { Options } from '../../Options';
+import { constrainWidth, getSizeLimits } from '../SizeConstraints';
 
 /**
  * The `DefaultAligner` class provides alignment management for Quill editor blots (such as images and iframes).
@@ -74,7 +75,8 @@ export default class DefaultAligner implements Aligner {
    * Clears alignment formatting from the given blot if it is an image or iframe.
    *
    * - For image blots (`IMG`), if the parent is a `SPAN`, removes the alignment attribute from the parent.
-   * - For iframe blots (`IFRAME`), removes the alignment attribute directly from the blot.
+   * - For block embeds such as iframes, figures (captioned images), native media and custom embeds,
+   *   removes the alignment attribute directly from the blot.
    *
    * @param blot - The blot to clear alignment formatting from, or `null` if none.
    */
@@ -87,7 +89,7 @@ export default class DefaultAligner implements Aligner {
             console.debug('Cleared image alignment from parent span:', blot.parent);
           }
         }
-      } else if (blot.domNode.tagName === 'IFRAME') {
+      } else if (this.isBlockBlot(blot) || this.hasBlockScope(blot)) {
         blot.format(this.formatter.IframeAlign.attrName, false)
         if (this.debug) {
           console.debug('Cleared iframe alignment:', blot);
@@ -176,8 +178,8 @@ export default class DefaultAligner implements Aligner {
    *
    * This method checks if the blot is already aligned as requested. If not, it clears any existing alignment,
    * and applies the new alignment based on the blot type (inline or block). For inline blots (such as images),
-   * it may also set a relative width attribute if required by the configuration. For block blots (such as iframes),
-   * it applies the alignment directly.
+   * it may also set a relative width attribute if required by the configuration, from the natural width of the image
+   * constrained by its size limits (see `getSizeLimits`). For block blots (such as iframes), it applies the alignment directly.
    *
    * Additionally, if the editor contains only an image, it ensures a new paragraph is added underneath to maintain
    * editor usability.
@@ -207,9 +209,12 @@ export default class DefaultAligner implements Aligner {
             const editorWidth = this.formatter.quill.root.clientWidth -
               parseFloat(editorStyle.paddingLeft) -
               parseFloat(editorStyle.paddingRight);
+            const image = blot.domNode as HTMLImageElement;
+            const limits = getSizeLimits(this.options, image, this._getSpecName(image), editorWidth);
+            const width = constrainWidth(image.naturalWidth, limits, image.naturalWidth / image.naturalHeight);
             blot.domNode.setAttribute(
               'width',
-              `${Math.min(Math.round(100 * (blot.domNode as HTMLImageElement).naturalWidth / editorWidth), 100)}%`
+              `${Math.min(Math.round(100 * width / editorWidth), 100)}%`
             )
           } catch {
             if (this.debug) console.debug('DefaultAligner.setAlignment Error setting image width:', blot);
@@ -252,5 +257,18 @@ export default class DefaultAligner implements Aligner {
       }
     }
   }
-}
 
+  /**
+   * Returns the name of the spec handling an element: the current spec if the element is the overlay target,
+   * otherwise the spec of a multi-selected target.
+   *
+   * @param element - The element being aligned.
+   * @returns {string | undefined} The spec name, or `undefined` if the element is not selected.
+   */
+  private _getSpecName = (element: HTMLElement): string | undefined => {
+    if (this.formatter.currentSpec?.getTargetElement() === element) {
+      return this.formatter.currentSpec.specName;
+    }
+    return this.formatter.multiSelection.targets.find(target => target.element === element)?.spec.specName;
+  }
+}
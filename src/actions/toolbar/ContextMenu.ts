@@ -0,0 +1,464 @@
+import BlotFormatter from '../../BlotFormatter';
+import DeleteAction from '../DeleteAction';
+import ToolbarButton from './ToolbarButton';
+
+const PROXY_IMAGE_CLASS = 'blot-formatter__proxy-image';
+// touch movement (px) allowed before a long-press is cancelled
+const LONG_PRESS_TOLERANCE = 10;
+
+/**
+ * A command shown in the context menu.
+ *
+ * - `name`: the toolbar button action name, or `delete`.
+ * - `label`: the text shown for the command.
+ * - `icon`: inner html of the command icon.
+ * - `button`: the toolbar button the command activates, or `null` for the delete command.
+ */
+type ContextMenuItem = {
+    name: string;
+    label: string;
+    icon: string;
+    button: ToolbarButton | null;
+};
+
+/**
+ * Opt-in context menu offering the same commands as the overlay toolbar.
+ *
+ * When `contextMenu.allowContextMenu` is enabled, right-clicking (or long-pressing on touch screens) an image,
+ * a video proxy or the active overlay selects the embed and opens a menu listing the visible toolbar commands
+ * (alignments, resize mode, link, alt/title, compress and any custom buttons) plus delete.
+ *
+ * @remarks
+ * - Menu commands activate the matching toolbar button, so the toolbar and menu always behave the same.
+ *   The toolbar can be hidden with `contextMenu.hideToolbar`.
+ * - The menu is appended to the Quill container and positioned so that it stays inside the container.
+ * - ArrowUp/ArrowDown/Home/End move between commands, Enter or Space activates the focused command,
+ *   Escape or Tab closes the menu.
+ * - Right-clicking anything other than a formattable embed leaves the native context menu in place.
+ */
+export default class ContextMenu {
+    formatter: BlotFormatter;
+    element: HTMLElement | null = null;
+    private _items: ContextMenuItem[] = [];
+    private _returnFocus: HTMLElement | null = null;
+    private _abortController: AbortController;
+    private _longPressTimer: ReturnType<typeof setTimeout> | null = null;
+    private _longPressStart: { x: number, y: number } | null = null;
+    private _longPressFired: boolean = false;
+    private debug: boolean;
+
+    constructor(formatter: BlotFormatter) {
+        this.formatter = formatter;
+        this.debug = formatter.options.debug ?? false;
+        this._abortController = new AbortController();
+        const { signal } = this._abortController;
+        const container: HTMLElement = this.formatter.quill.container;
+        // capture phase - runs before the overlay and proxy image handlers that suppress the native menu
+        container.addEventListener('contextmenu', this._onContextMenu, { capture: true, signal });
+        container.addEventListener('touchstart', this._onTouchStart, { capture: true, passive: true, signal });
+        container.addEventListener('touchmove', this._onTouchMove, { capture: true, passive: true, signal });
+        container.addEventListener('touchend', this._onTouchEnd, { capture: true, passive: false, signal });
+        container.addEventListener('touchcancel', this._cancelLongPress, { capture: true, signal });
+    }
+
+    /**
+     * Indicates whether the menu is currently open.
+     */
+    get isOpen(): boolean {
+        return !!this.element;
+    }
+
+    /**
+     * Opens the menu for the formatter's current target.
+     *
+     * The menu is positioned at the given client coordinates, or at the top left corner of the target if
+     * none are given (e.g. when opened from the keyboard), then moved as needed to stay inside the container.
+     * Focus moves to the first command.
+     *
+     * @param clientX - The horizontal client coordinate to open the menu at.
+     * @param clientY - The vertical client coordinate to open the menu at.
+     */
+    open = (clientX?: number, clientY?: number): void => {
+        this.close();
+        const target = this.formatter.currentSpec?.getTargetElement();
+        if (!target) return;
+        this._items = this._getItems();
+        if (!this._items.length) return;
+        const activeElement = this.formatter.rootNode.activeElement;
+        this._returnFocus = activeElement instanceof HTMLElement ? activeElement : null;
+        this.element = this._createMenu();
+        this.formatter.quill.container.appendChild(this.element);
+        if (clientX === undefined || clientY === undefined) {
+            const rect = target.getBoundingClientRect();
+            clientX = rect.left;
+            clientY = rect.top;
+        }
+        this._position(clientX, clientY);
+        document.addEventListener('pointerdown', this._onDocumentPointerDown, true);
+        this.formatter.quill.root.addEventListener('scroll', this._onScroll);
+        this._getItemElements()[0]?.focus();
+        if (this.debug) console.debug('ContextMenu opened with commands:', this._items.map(item => item.name));
+    }
+
+    /**
+     * Closes the menu if open.
+     *
+     * @param restoreFocus - If true, focus returns to the element focused before the menu opened.
+     */
+    close = (restoreFocus: boolean = false): void => {
+        if (!this.element) return;
+        document.removeEventListener('pointerdown', this._onDocumentPointerDown, true);
+        this.formatter.quill.root.removeEventListener('scroll', this._onScroll);
+        this.element.remove();
+        this.element = null;
+        this._items = [];
+        if (restoreFocus && this._returnFocus?.isConnected) {
+            this._returnFocus.focus();
+        }
+        this._returnFocus = null;
+        if (this.debug) console.debug('ContextMenu closed');
+    }
+
+    /**
+     * Closes the menu and removes all event listeners.
+     */
+    destroy = (): void => {
+        this.close();
+        this._cancelLongPress();
+        this._abortController.abort();
+    }
+
+    /**
+     * Builds the list of commands from the visible toolbar buttons, followed by delete if the
+     * current spec has a `DeleteAction`.
+     *
+     * @returns {ContextMenuItem[]} The menu commands.
+     */
+    private _getItems = (): ContextMenuItem[] => {
+        const options = this.formatter.options;
+        const items: ContextMenuItem[] = Object.values(this.formatter.toolbar.buttons)
+            .filter(button => !!button.element && button.visible)
+            .map(button => ({
+                name: button.action,
+                label: button.element?.title || options.toolbar.tooltips?.[button.action] || button.action,
+                icon: button.icon,
+                button: button
+            }));
+        if (this.formatter.actions.some(action => action instanceof DeleteAction)) {
+            items.push({
+                name: 'delete',
+                label: options.contextMenu.labels.delete,
+                icon: options.contextMenu.icons.delete,
+                button: null
+            });
+        }
+        return items;
+    }
+
+    /**
+     * Creates the menu element and an item element for each command.
+     *
+     * @returns {HTMLElement} The menu element.
+     */
+    private _createMenu = (): HTMLElement => {
+        const options = this.formatter.options.contextMenu;
+        const menu = document.createElement('div');
+        menu.className = options.className;
+        menu.setAttribute('role', 'menu');
+        if (options.style) {
+            Object.assign(menu.style, options.style);
+        }
+        this._items.forEach(item => {
+            const itemElement = document.createElement('div');
+            itemElement.className = options.itemClassName;
+            itemElement.dataset.action = item.name;
+            itemElement.tabIndex = -1;
+            if (item.button) {
+                itemElement.setAttribute('role', 'menuitemcheckbox');
+                itemElement.setAttribute('aria-checked', `${item.button.selected}`);
+            } else {
+                itemElement.setAttribute('role', 'menuitem');
+            }
+            const icon = document.createElement('span');
+            icon.innerHTML = item.icon;
+            icon.setAttribute('aria-hidden', 'true');
+            if (options.iconStyle) {
+                Object.assign(icon.style, options.iconStyle);
+                // size the svg to the icon
+                const svg = icon.querySelector('svg');
+                if (svg) Object.assign(svg.style, { width: '100%', height: '100%' });
+            }
+            const label = document.createElement('span');
+            label.textContent = item.label;
+            itemElement.append(icon, label);
+            const applyStyle = (focused: boolean) => {
+                if (options.itemStyle) Object.assign(itemElement.style, options.itemStyle);
+                if (item.button?.selected && options.itemSelectedStyle) {
+                    Object.assign(itemElement.style, options.itemSelectedStyle);
+                }
+                if (focused && options.itemFocusStyle) Object.assign(itemElement.style, options.itemFocusStyle);
+            }
+            applyStyle(false);
+            itemElement.addEventListener('focus', () => applyStyle(true));
+            itemElement.addEventListener('blur', () => applyStyle(false));
+            itemElement.addEventListener('pointerenter', () => itemElement.focus());
+            itemElement.addEventListener('click', (event: MouseEvent) => {
+                event.stopPropagation();
+                this._activate(item);
+            });
+            menu.appendChild(itemElement);
+        });
+        menu.addEventListener('keydown', this._onKeyDown);
+        // keep menu key presses from the document level action handlers (caret, delete)
+        menu.addEventListener('keyup', (event: KeyboardEvent) => event.stopPropagation());
+        menu.addEventListener('contextmenu', (event: Event) => event.preventDefault());
+        return menu;
+    }
+
+    /**
+     * Positions the menu at the given client coordinates, moving it as required so that it remains
+     * inside the visible area of the Quill container.
+     *
+     * @param clientX - The horizontal client coordinate.
+     * @param clientY - The vertical client coordinate.
+     */
+    private _position = (clientX: number, clientY: number): void => {
+        if (!this.element) return;
+        const container: HTMLElement = this.formatter.quill.container;
+        const containerRect: DOMRect = container.getBoundingClientRect();
+        const scale = this.formatter._getContainerScale();
+        const minLeft = container.scrollLeft;
+        const minTop = container.scrollTop;
+        const maxLeft = Math.max(minLeft, minLeft + container.clientWidth - this.element.offsetWidth);
+        const maxTop = Math.max(minTop, minTop + container.clientHeight - this.element.offsetHeight);
+        const left = (clientX - containerRect.left) / scale.x - container.clientLeft + container.scrollLeft;
+        const top = (clientY - containerRect.top) / scale.y - container.clientTop + container.scrollTop;
+        Object.assign(this.element.style, {
+            left: `${Math.min(Math.max(left, minLeft), maxLeft)}px`,
+            top: `${Math.min(Math.max(top, minTop), maxTop)}px`
+        });
+    }
+
+    /**
+     * Runs a menu command and closes the menu.
+     * Toolbar commands click the matching toolbar button, the delete command deletes the selection.
+     *
+     * @param item - The command to run.
+     */
+    private _activate = (item: ContextMenuItem): void => {
+        if (this.debug) console.debug('ContextMenu activate:', item.name);
+        this.close();
+        if (item.button) {
+            item.button.element?.click();
+        } else if (item.name === 'delete') {
+            const deleteAction = this.formatter.actions.find(action => action instanceof DeleteAction) as DeleteAction | undefined;
+            deleteAction?.deleteSelected();
+        }
+    }
+
+    /**
+     * Returns the menu item elements in display order.
+     *
+     * @returns {HTMLElement[]} The item elements.
+     */
+    private _getItemElements = (): HTMLElement[] => {
+        return this.element
+            ? Array.from(this.element.querySelectorAll<HTMLElement>('[role^="menuitem"]'))
+            : [];
+    }
+
+    /**
+     * Handles keyboard navigation within the menu.
+     *
+     * - ArrowDown/ArrowUp move focus to the next/previous command (wrapping at either end).
+     * - Home/End move focus to the first/last command.
+     * - Enter and Space activate the focused command.
+     * - Escape and Tab close the menu and return focus to where it was before the menu opened.
+     *
+     * Handled events are not propagated so that Escape does not also close the formatter overlay.
+     *
+     * @param event - The keydown event.
+     */
+    private _onKeyDown = (event: KeyboardEvent): void => {
+        const itemElements = this._getItemElements();
+        const index = itemElements.indexOf(event.target as HTMLElement);
+        let next: number | null = null;
+        switch (event.key) {
+            case 'ArrowDown':
+                next = index + 1;
+                break;
+            case 'ArrowUp':
+                next = index - 1;
+                break;
+            case 'Home':
+                next = 0;
+                break;
+            case 'End':
+                next = itemElements.length - 1;
+                break;
+            case 'Enter':
+            case ' ':
+                if (index >= 0) this._activate(this._items[index]);
+                break;
+            case 'Escape':
+            case 'Tab':
+                this.close(true);
+                break;
+            default:
+                return;
+        }
+        event.preventDefault();
+        event.stopPropagation();
+        if (next !== null && itemElements.length) {
+            itemElements[(next + itemElements.length) % itemElements.length].focus();
+        }
+    }
+
+    /**
+     * Finds the embed element a context menu or long-press event applies to.
+     *
+     * - Within the overlay: the formatter's current target.
+     * - On a proxy image: the unclickable element the proxy covers.
+     * - Within the editor: the element if one of the registered specs can format it.
+     *
+     * @param target - The event target.
+     * @returns The embed element, or `null` if the event does not apply to a formattable embed.
+     */
+    private _resolveTarget = (target: EventTarget | null): HTMLElement | null => {
+        if (!(target instanceof HTMLElement) || this.element?.contains(target)) return null;
+        if (this.formatter.overlay.contains(target)) {
+            return this.formatter.currentSpec?.getTargetElement() ?? null;
+        }
+        if (target.classList.contains(PROXY_IMAGE_CLASS)) {
+            const id = target.dataset.blotFormatterId;
+            return id
+                ? this.formatter.quill.root.querySelector(`[data-blot-formatter-id="${id}"]`) as HTMLElement | null
+                : null;
+        }
+        if (this.formatter.quill.root.contains(target) && this.formatter.specs.some(spec => spec.canFormat(target))) {
+            return target;
+        }
+        return null;
+    }
+
+    /**
+     * Selects the embed (if not already the current target) and opens the menu.
+     *
+     * @param element - The embed element.
+     * @param clientX - The horizontal client coordinate to open the menu at.
+     * @param clientY - The vertical client coordinate to open the menu at.
+     */
+    private _openFor = (element: HTMLElement, clientX?: number, clientY?: number): void => {
+        if (this.formatter.currentSpec?.getTargetElement() !== element && !this.formatter.select(element)) {
+            return;
+        }
+        this.open(clientX, clientY);
+    }
+
+    /**
+     * Handles `contextmenu` events within the Quill container (right-click, context menu key or Shift+F10).
+     * Replaces the native menu when the event applies to a formattable embed.
+     *
+     * @param event - The contextmenu event.
+     */
+    private _onContextMenu = (event: MouseEvent): void => {
+        if (!this.formatter.enabled) return;
+        if (this.element?.contains(event.target as Node)) {
+            event.preventDefault();
+            return;
+        }
+        const element = this._resolveTarget(event.target);
+        if (!element) return;
+        event.preventDefault();
+        event.stopPropagation();
+        if (this._longPressFired) return; // menu already opened by long-press
+        // keyboard initiated events have no pointer position - open at the target instead
+        const fromKeyboard = event.clientX === 0 && event.clientY === 0;
+        this._openFor(
+            element,
+            fromKeyboard ? undefined : event.clientX,
+            fromKeyboard ? undefined : event.clientY
+        );
+    }
+
+    /**
+     * Starts the long-press timer for a single touch on a formattable embed.
+     *
+     * @param event - The touchstart event.
+     */
+    private _onTouchStart = (event: TouchEvent): void => {
+        this._cancelLongPress();
+        this._longPressFired = false;
+        if (!this.formatter.enabled || event.touches.length !== 1) return;
+        const element = this._resolveTarget(event.target);
+        if (!element) return;
+        const touch = event.touches[0];
+        const start = { x: touch.clientX, y: touch.clientY };
+        this._longPressStart = start;
+        this._longPressTimer = setTimeout(() => {
+            this._longPressTimer = null;
+            this._longPressFired = true;
+            this._openFor(element, start.x, start.y);
+        }, this.formatter.options.contextMenu.longPressDelay);
+    }
+
+    /**
+     * Cancels the long-press if the touch moves beyond the tolerance or a second finger is added.
+     *
+     * @param event - The touchmove event.
+     */
+    private _onTouchMove = (event: TouchEvent): void => {
+        if (!this._longPressTimer || !this._longPressStart) return;
+        const touch = event.touches[0];
+        if (
+            event.touches.length !== 1 ||
+            Math.abs(touch.clientX - this._longPressStart.x) > LONG_PRESS_TOLERANCE ||
+            Math.abs(touch.clientY - this._longPressStart.y) > LONG_PRESS_TOLERANCE
+        ) {
+            this._cancelLongPress();
+        }
+    }
+
+    /**
+     * Cancels a pending long-press. If the long-press opened the menu, prevents the click
+     * that would otherwise follow the touch and close it.
+     *
+     * @param event - The touchend event.
+     */
+    private _onTouchEnd = (event: TouchEvent): void => {
+        this._cancelLongPress();
+        if (this._longPressFired) {
+            event.preventDefault();
+            this._longPressFired = false;
+        }
+    }
+
+    /**
+     * Clears any pending long-press timer.
+     */
+    private _cancelLongPress = (): void => {
+        if (this._longPressTimer) {
+            clearTimeout(this._longPressTimer);
+            this._longPressTimer = null;
+        }
+        this._longPressStart = null;
+    }
+
+    /**
+     * Closes the menu when the pointer is pressed outside of it.
+     *
+     * @param event - The pointerdown event.
+     */
+    private _onDocumentPointerDown = (event: PointerEvent): void => {
+        if (!this.element?.contains(this.formatter.getEventTarget(event) as Node)) {
+            this.close();
+        }
+    }
+
+    /**
+     * Closes the menu when the editor scrolls.
+     */
+    private _onScroll = (): void => {
+        this.close();
+    }
+}
@@ -0,0 +1,88 @@
+import ToolbarButton from './ToolbarButton';
+import type { CustomToolbarButtonOptions, ToolbarButtonContext, ToolbarOptions } from '../../Options';
+
+/**
+ * A toolbar button declared in the `toolbar.customButtons` option rather than by an `Action`.
+ *
+ * The button's icon and tooltip are taken from its declaration, and its click, selected and visible
+ * states are delegated to the declared `onClick`, `isActive` and `isVisible` callbacks. Each callback
+ * receives a `ToolbarButtonContext` holding the formatter, the target element and its blot.
+ *
+ * @remarks
+ * - Created by `Toolbar.create()` for each entry in `toolbar.customButtons` when the overlay is shown.
+ * - The selected state is refreshed from `isActive` after each click.
+ *
+ * @extends ToolbarButton
+ */
+export default class CustomToolbarButton extends ToolbarButton {
+    config: CustomToolbarButtonOptions;
+    context: ToolbarButtonContext;
+
+    constructor(
+        config: CustomToolbarButtonOptions,
+        context: ToolbarButtonContext,
+        options: ToolbarOptions
+    ) {
+        super(
+            config.name,
+            (event: Event) => this._onClickHandler(event),
+            {
+                ...options,
+                icons: { ...options.icons, [config.name]: config.icon },
+                tooltips: config.tooltip
+                    ? { ...options.tooltips, [config.name]: config.tooltip }
+                    : options.tooltips
+            }
+        );
+        this.config = config;
+        this.context = context;
+        this.initialVisibility = this._callback(config.isVisible, true);
+    }
+
+    /**
+     * Determines whether the button should appear as selected when created, using the `isActive` callback.
+     *
+     * @returns {boolean} The result of `isActive`, or `false` if not declared.
+     */
+    preselect = (): boolean => {
+        return this._callback(this.config.isActive, false);
+    }
+
+    /**
+     * Calls the declared `onClick` callback with the button context, then refreshes the selected state.
+     * Errors thrown by the callback are logged and do not interrupt the formatter.
+     *
+     * @param event - The click event.
+     */
+    private _onClickHandler = (event: Event): void => {
+        try {
+            this.config.onClick(this.context);
+        } catch (error) {
+            console.error(`Custom toolbar button '${this.config.name}' onClick error:`, error);
+        }
+        this.selected = this._callback(this.config.isActive, false);
+        if (this.context.formatter.options.debug) {
+            console.debug('CustomToolbarButton clicked:', this.config.name, this.context);
+        }
+    }
+
+    /**
+     * Calls an optional boolean callback with the button context.
+     *
+     * @param callback - The declared callback, if any.
+     * @param fallback - The value returned if the callback is not declared or throws.
+     * @returns {boolean} The callback result or the fallback value.
+     */
+    private _callback = (
+        callback: ((context: ToolbarButtonContext) => boolean) | undefined,
+        fallback: boolean
+    ): boolean => {
+        if (!callback) return fallback;
+        try {
+            return !!callback(this.context);
+        } catch (error) {
+            console.error(`Custom toolbar button '${this.config.name}' callback error:`, error);
+            return fallback;
+        }
+    }
+}
@@ -1,5 +1,17 @@
 import BlotFormatter from '../../BlotFormatter';
+import CustomToolbarButton from './CustomToolbarButton';
 import ToolbarButton from './ToolbarButton';
+import type { ToolbarPlacement } from '../../Options';
+
+// styles set on the toolbar element for each resolved placement, replacing those keys from mainStyle
+const PLACEMENT_STYLES: Record<Exclude<ToolbarPlacement, 'auto'>, { [key: string]: string }> = {
+    'inside-top': {},
+    above: { top: 'auto', bottom: '100%', transform: 'none' },
+    below: { top: '100%', bottom: 'auto', transform: 'none' },
+    docked: {}
+};
+// css property names, identical in kebab and camel case so they also index mainStyle
+const PLACEMENT_STYLE_KEYS = ['position', 'top', 'bottom', 'transform'];
 
 /**
  * Manages the creation, display, and destruction of a toolbar for BlotFormatter actions.
@@ -9,7 +21,13 @@ import ToolbarButton from './ToolbarButton';
  *
  * @remarks
  * - The toolbar is initialized and shown via the `create()` method, which collects all action buttons and appends them to the DOM.
+ * - Buttons declared in the `toolbar.customButtons` option are added after the action buttons.
+ * - The `toolbar.placement` option sets where the toolbar is rendered: inside the overlay along its top edge,
+ *   above or below the overlay, above or below depending on available space (`auto`), or docked in the
+ *   `toolbar.dockedHost` element.
  * - The `destroy()` method cleans up the toolbar, removes it from the DOM, and destroys all associated buttons to prevent memory leaks.
+ * - Buttons can be operated by keyboard: Tab/Shift+Tab and the arrow keys move focus between visible buttons
+ *   (wrapping at either end), Enter or Space activates the focused button.
  *
  * @example
  * ```typescript
@@ -25,6 +43,8 @@ export default class Toolbar {
     formatter: BlotFormatter;
     element: HTMLElement;
     buttons: Record<string, ToolbarButton> = {};
+    placement: Exclude<ToolbarPlacement, 'auto'> = 'inside-top';
+    private _dockedHost: HTMLElement | null = null;
 
     constructor(formatter: BlotFormatter) {
         this.formatter = formatter;
@@ -33,9 +53,12 @@ export default class Toolbar {
         this.element.addEventListener('mousedown', (event: MouseEvent) => {
             event.stopPropagation();
         });
+        this.element.setAttribute('role', 'toolbar');
+        this.element.addEventListener('keydown', this._onKeyDown);
         if (this.formatter.options.toolbar.mainStyle) {
             Object.assign(this.element.style, this.formatter.options.toolbar.mainStyle);
         }
+        this._applyHidden();
     }
 
     /**
@@ -44,7 +67,9 @@ export default class Toolbar {
      * 
      * Iterates through all actions registered in the formatter, collects their toolbar buttons,
      * stores each button in the `buttons` map by its action name, and appends the created button elements
-     * to the toolbar's DOM element. Finally, appends the toolbar element to the formatter's overlay.
+     * to the toolbar's DOM element, followed by any custom buttons declared in `toolbar.customButtons`.
+     * Finally, appends the toolbar element to the formatter's overlay (or the docked host) and applies
+     * the configured placement.
      */
     create = (): void => {
         const actionButtons: HTMLElement[] = [];
@@ -54,28 +79,210 @@ export default class Toolbar {
                 actionButtons.push(button.create());
             });
         });
+        this._createCustomButtons().forEach(button => {
+            this.buttons[button.action] = button;
+            actionButtons.push(button.create());
+        });
         this.element.append(...actionButtons);
-        this.formatter.overlay.append(this.element);
+        this._dockedHost = this._getDockedHost();
+        if (this._dockedHost) {
+            this._dockedHost.append(this.element);
+        } else {
+            this.formatter.overlay.append(this.element);
+        }
+        this.updatePlacement();
         if (this.formatter.options.debug) {
             console.debug('Toolbar created with buttons:', Object.keys(this.buttons), actionButtons);
         }
     }
 
     /**
-     * Cleans up the toolbar by removing its element from the overlay,
+     * Creates a `CustomToolbarButton` for each entry in the `toolbar.customButtons` option,
+     * with a context holding the formatter, current target element and its blot.
+     * Entries whose name is already used by an action button are skipped with a warning.
+     *
+     * @returns {CustomToolbarButton[]} The custom buttons, or an empty array if there is no current target.
+     */
+    private _createCustomButtons = (): CustomToolbarButton[] => {
+        const customButtons = this.formatter.options.toolbar.customButtons ?? [];
+        const target = this.formatter.currentSpec?.getTargetElement();
+        if (!customButtons.length || !target) return [];
+        const context = {
+            formatter: this.formatter,
+            target: target,
+            blot: this.formatter.currentSpec?.getTargetBlot() ?? null
+        };
+        return customButtons
+            .filter(config => {
+                if (this.buttons[config.name]) {
+                    console.warn(`Toolbar: custom button name '${config.name}' is already in use, button skipped`);
+                    return false;
+                }
+                return true;
+            })
+            .map(config => new CustomToolbarButton(config, context, this.formatter.options.toolbar));
+    }
+
+    /**
+     * Applies the configured `toolbar.placement` to the toolbar element.
+     * Called when the toolbar is created and whenever the overlay is repositioned so that
+     * `auto` placement follows the available space.
+     *
+     * `auto` resolves to `above` if the toolbar fits between the top of the Quill container and the overlay,
+     * otherwise `below` if it fits between the overlay and the bottom of the container, otherwise `inside-top`.
+     * The resolved placement is stored in `placement`.
+     */
+    updatePlacement = (): void => {
+        if (!this.element.isConnected) return;
+        const options = this.formatter.options.toolbar;
+        const placement: Exclude<ToolbarPlacement, 'auto'> = this._dockedHost
+            ? 'docked'
+            : options.placement === 'auto'
+                ? this._resolveAutoPlacement()
+                : options.placement === 'docked' ? 'inside-top' : options.placement;
+        if (this.element.dataset.placement === placement) return;
+        // reset placement keys to mainStyle values before applying the placement styles
+        PLACEMENT_STYLE_KEYS.forEach(key => {
+            const value = options.mainStyle?.[key];
+            if (value != null && value !== '') {
+                this.element.style.setProperty(key, String(value));
+            } else {
+                this.element.style.removeProperty(key);
+            }
+        });
+        Object.assign(this.element.style, PLACEMENT_STYLES[placement]);
+        if (placement === 'docked' && options.dockedStyle) {
+            Object.assign(this.element.style, options.dockedStyle);
+        }
+        this._applyHidden();
+        this.placement = placement;
+        this.element.dataset.placement = placement;
+        if (this.formatter.options.debug) {
+            console.debug('Toolbar placement:', placement);
+        }
+    }
+
+    /**
+     * Chooses `above`, `below` or `inside-top` for `auto` placement from the space available
+     * between the overlay and the top and bottom of the Quill container.
+     *
+     * @returns The placement to apply.
+     */
+    private _resolveAutoPlacement = (): Exclude<ToolbarPlacement, 'auto' | 'docked'> => {
+        const height = this.element.offsetHeight;
+        const containerRect: DOMRect = this.formatter.quill.container.getBoundingClientRect();
+        const overlayRect: DOMRect = this.formatter.overlay.getBoundingClientRect();
+        if (overlayRect.top - containerRect.top >= height) return 'above';
+        if (containerRect.bottom - overlayRect.bottom >= height) return 'below';
+        return 'inside-top';
+    }
+
+    /**
+     * Finds the host element for `docked` placement from the `toolbar.dockedHost` option,
+     * which may be an element or a css selector.
+     *
+     * @returns The host element, or `null` if placement is not `docked` or the host cannot be found.
+     */
+    private _getDockedHost = (): HTMLElement | null => {
+        const options = this.formatter.options.toolbar;
+        if (options.placement !== 'docked') return null;
+        const host = typeof options.dockedHost === 'string'
+            ? this.formatter.rootNode.querySelector<HTMLElement>(options.dockedHost) ??
+                document.querySelector<HTMLElement>(options.dockedHost)
+            : options.dockedHost ?? null;
+        if (!host) {
+            console.warn('Toolbar: dockedHost not found, toolbar placed inside the overlay');
+        }
+        return host;
+    }
+
+    /**
+     * Hides the toolbar element if `contextMenu.hideToolbar` is set.
+     * Buttons are still created for the context menu to activate.
+     */
+    private _applyHidden = (): void => {
+        if (this.formatter.options.contextMenu.hideToolbar) {
+            this.element.style.display = 'none';
+        }
+    }
+
+    /**
+     * Moves keyboard focus to the first visible toolbar button.
+     * Called when the overlay is opened via the keyboard.
+     */
+    focus = (): void => {
+        this._getVisibleButtons()[0]?.focus();
+    }
+
+    /**
+     * Returns the elements of all currently visible toolbar buttons in display order.
+     *
+     * @returns {HTMLElement[]} The visible button elements.
+     */
+    private _getVisibleButtons = (): HTMLElement[] => {
+        return Object.values(this.buttons)
+            .filter(button => !!button.element && button.visible)
+            .map(button => button.element as HTMLElement);
+    }
+
+    /**
+     * Handles keyboard navigation within the toolbar.
+     *
+     * - Tab, ArrowRight and ArrowDown move focus to the next visible button.
+     * - Shift+Tab, ArrowLeft and ArrowUp move focus to the previous visible button.
+     * - Enter and Space activate the focused button.
+     *
+     * Focus wraps at either end so it remains in the toolbar until the overlay is closed (e.g. with Escape).
+     *
+     * @param event - The keydown event.
+     */
+    private _onKeyDown = (event: KeyboardEvent): void => {
+        const buttons = this._getVisibleButtons();
+        const index = buttons.indexOf(event.target as HTMLElement);
+        if (index === -1) return;
+        let next: number | null = null;
+        switch (event.key) {
+            case 'Tab':
+                next = event.shiftKey ? index - 1 : index + 1;
+                break;
+            case 'ArrowRight':
+            case 'ArrowDown':
+                next = index + 1;
+                break;
+            case 'ArrowLeft':
+            case 'ArrowUp':
+                next = index - 1;
+                break;
+            case 'Enter':
+            case ' ':
+                event.preventDefault();
+                buttons[index].click();
+                return;
+            default:
+                return;
+        }
+        event.preventDefault();
+        const button = buttons[(next + buttons.length) % buttons.length];
+        button.focus();
+        if (this.formatter.options.debug) {
+            console.debug('Toolbar keyboard navigation', event.key, button);
+        }
+    }
+
+    /**
+     * Cleans up the toolbar by removing its element from the overlay (or docked host),
      * destroying all associated buttons, and clearing internal references.
      * Called by BlotFormatter.hide() to remove the toolbar from the DOM.
      * 
      * This should be called when the toolbar is no longer needed to prevent memory leaks.
      */
     destroy = (): void => {
-        if (this.element) {
-            this.formatter.overlay.removeChild(this.element);
-        }
+        this.element.remove();
         for (const button of Object.values(this.buttons)) {
             button.destroy();
         }
         this.buttons = {};
+        this._dockedHost = null;
         this.element.innerHTML = '';
         if (this.formatter.options.debug) {
             console.debug('Toolbar destroyed');
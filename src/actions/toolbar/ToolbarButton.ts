@@ -62,7 +62,8 @@ export default class ToolbarButton implements _ToolbarButton {
      * 
      * This method constructs a `span` element, sets its inner HTML to the provided icon,
      * assigns the appropriate class name and action data attribute, and attaches the click handler.
-     * If tooltips are configured for the action, it sets the tooltip text.
+     * The button is made focusable with a `button` role for keyboard users.
+     * If tooltips are configured for the action, it sets the tooltip text and accessible label.
      * The button's selected and visible states are initialized, and custom styling is applied.
      * 
      * @returns {HTMLElement} The created and configured toolbar button element.
@@ -73,8 +74,11 @@ export default class ToolbarButton implements _ToolbarButton {
         this.element.className = this.options.buttonClassName;
         this.element.dataset.action = this.action;
         this.element.onclick = this.onClick;
+        this.element.tabIndex = 0;
+        this.element.setAttribute('role', 'button');
         if (this.options.tooltips && this.options.tooltips[this.action]) {
             this.element.title = this.options.tooltips[this.action];
+            this.element.setAttribute('aria-label', this.options.tooltips[this.action]);
         }
         this.selected = this.preselect();
         this.visible = this.initialVisibility;
@@ -123,13 +127,14 @@ export default class ToolbarButton implements _ToolbarButton {
      * 
      * When set to `true`, applies the selected class and style to the button element.
      * When set to `false`, removes the selected class and style, and reapplies the default button style if provided.
-     * Also updates the `data-selected` attribute on the element.
+     * Also updates the `data-selected` and `aria-pressed` attributes on the element.
      *
      * @param value - Indicates whether the button should be in the selected state.
      */
     set selected(value: boolean) {
         if (this.element) {
             this.element.dataset.selected = value.toString();
+            this.element.setAttribute('aria-pressed', value.toString());
             // apply styles to indicate selected state
             if (value) {
                 this.element.classList.add(this.options.buttonSelectedClassName);
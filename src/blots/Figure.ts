@@ -0,0 +1,289 @@
+import { RESPONSIVE_WIDTHS_ATTRIBUTE } from '../responsive/ResponsiveWidths';
+
+/**
+ * The value of a figure blot in the Quill delta.
+ *
+ * - `src`: The image source.
+ * - `caption`: The caption text (plain text, may be empty).
+ */
+export interface FigureValue {
+    src: string;
+    caption: string;
+}
+
+/**
+ * Factory function to create a Quill block embed blot for a captioned image, rendered as
+ * `<figure><img><figcaption>`.
+ *
+ * The image source and caption text are stored as the blot value, so captions survive delta round-trips
+ * (`getContents()` / `setContents()`) and are real text for screen readers. The `alt`, `title`, `width`,
+ * `height`, `responsiveWidths` and `link` formats are kept on the image (the link wraps it in an `<a>` element), and block
+ * attributors such as the iframe align format are applied to the figure.
+ *
+ * @param QuillConstructor - The Quill constructor or instance used to import the base BlockEmbed blot.
+ * @returns A Figure blot class to register as `formats/figure`.
+ *
+ * @remarks
+ * - The caption is edited in place: clicking it (while the editor is enabled) or calling `editCaption()`
+ *   makes the `figcaption` editable until it loses focus. Enter or Escape finish editing and move the
+ *   caret after the figure.
+ * - Keyboard, clipboard and input events in the caption are kept from Quill so they only edit the caption.
+ *   Pasted content is inserted as plain text.
+ * - Caption changes are picked up by Quill as a change to the blot value and can be undone.
+ * - Empty captions show the `captionPlaceholder` text via css, and are omitted from `getSemanticHTML()`.
+ *
+ * @example
+ * ```typescript
+ * const Figure = createFigureBlotClass(Quill);
+ * Quill.register({ 'formats/figure': Figure });
+ * quill.insertEmbed(0, 'figure', { src: 'https://example.com/image.png', caption: 'A caption' });
+ * ```
+ */
+export const createFigureBlotClass = (QuillConstructor: any): any => {
+    const BlockEmbed = QuillConstructor.import('blots/block/embed') as any;
+    const ImageBlot = QuillConstructor.import('formats/image') as any;
+    const LinkBlot = QuillConstructor.import('formats/link') as any;
+
+    const ATTRIBUTES = ['alt', 'height', 'width', 'title'];
+    // events kept from Quill's keyboard, clipboard, input and composition handlers while editing the caption
+    const CAPTION_EVENTS = [
+        'keyup', 'keypress', 'beforeinput', 'input', 'compositionstart', 'compositionupdate',
+        'compositionend', 'copy', 'cut'
+    ];
+
+    /**
+     * Represents a captioned image block embed.
+     *
+     * @remarks
+     * - The static `value` method reads the image source and caption from a DOM node (also used when pasting
+     *   `<figure>` html), returning `null` if the figure has no image.
+     * - The static `formats` method reads the image attributes and link.
+     * - The `format` method sets or removes image attributes and the link, delegating block attributors to the superclass.
+     */
+    return class Figure extends BlockEmbed {
+        static blotName = 'figure';
+        static tagName = 'FIGURE';
+        static className = 'ql-figure';
+        // text shown in empty captions while editing
+        static captionPlaceholder: string = 'Caption';
+
+        static create(value: FigureValue) {
+            const node = super.create() as HTMLElement;
+            node.setAttribute('contenteditable', 'false');
+            const image = document.createElement('img');
+            image.setAttribute('src', ImageBlot.sanitize(value?.src ?? ''));
+            const caption = document.createElement('figcaption');
+            caption.textContent = value?.caption ?? '';
+            caption.dataset.placeholder = this.captionPlaceholder;
+            node.append(image, caption);
+            return node;
+        }
+
+        static value(domNode: HTMLElement): FigureValue | null {
+            const image = domNode.querySelector('img');
+            if (!image) return null;
+            return {
+                src: image.getAttribute('src') ?? '',
+                caption: (domNode.querySelector('figcaption')?.textContent ?? '').trim()
+            };
+        }
+
+        static formats(domNode: HTMLElement) {
+            const formats: Record<string, string> = {};
+            const image = domNode.querySelector('img');
+            if (image) {
+                ATTRIBUTES.forEach(attribute => {
+                    if (image.hasAttribute(attribute)) {
+                        formats[attribute] = image.getAttribute(attribute) as string;
+                    }
+                });
+                if (image.hasAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE)) {
+                    formats.responsiveWidths = image.getAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE) as string;
+                }
+                const link = image.parentElement?.closest('a[href]');
+                if (link && domNode.contains(link)) {
+                    formats.link = link.getAttribute('href') as string;
+                }
+            }
+            return formats;
+        }
+
+        constructor(scroll: any, domNode: HTMLElement) {
+            super(scroll, domNode);
+            const caption = this.caption;
+            if (caption) {
+                caption.addEventListener('click', this.editCaption);
+                caption.addEventListener('blur', this._onCaptionBlur);
+                caption.addEventListener('keydown', this._onCaptionKeyDown);
+                caption.addEventListener('paste', this._onCaptionPaste);
+                caption.addEventListener('drop', this._onCaptionDrop);
+                CAPTION_EVENTS.forEach(event => {
+                    caption.addEventListener(event, this._stopPropagation);
+                });
+            }
+        }
+
+        get image(): HTMLImageElement | null {
+            return this.domNode.querySelector('img');
+        }
+
+        get caption(): HTMLElement | null {
+            return this.domNode.querySelector('figcaption');
+        }
+
+        format(name: string, value: any) {
+            const image = this.image;
+            if (image && ATTRIBUTES.indexOf(name) > -1) {
+                if (value || name === 'alt') {
+                    image.setAttribute(name, value);
+                } else {
+                    image.removeAttribute(name);
+                }
+                if (name === 'width') {
+                    this._updateWidth(value);
+                }
+            } else if (image && name === 'responsiveWidths') {
+                if (value) {
+                    image.setAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE, value);
+                } else {
+                    image.removeAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE);
+                }
+            } else if (image && name === 'link') {
+                this._formatLink(image, value);
+            } else {
+                super.format(name, value);
+            }
+        }
+
+        /**
+         * Returns the figure html for `getSemanticHTML()`, without editing attributes and
+         * without the caption if it is empty.
+         */
+        html() {
+            const node = this.domNode.cloneNode(true) as HTMLElement;
+            node.removeAttribute('contenteditable');
+            const caption = node.querySelector('figcaption');
+            if (caption) {
+                if (caption.textContent?.trim()) {
+                    caption.removeAttribute('contenteditable');
+                    caption.removeAttribute('data-placeholder');
+                } else {
+                    caption.remove();
+                }
+            }
+            return node.outerHTML;
+        }
+
+        /**
+         * Makes the caption editable and moves focus to the end of the caption text.
+         * Ignored while the editor is disabled.
+         *
+         * @returns `true` if caption editing was started.
+         */
+        editCaption = (): boolean => {
+            const caption = this.caption;
+            if (!caption || !this.scroll.isEnabled()) return false;
+            caption.setAttribute('contenteditable', 'true');
+            caption.focus();
+            const selection = caption.ownerDocument.getSelection();
+            if (selection) {
+                selection.selectAllChildren(caption);
+                selection.collapseToEnd();
+            }
+            return true;
+        }
+
+        /**
+         * Ends caption editing when the caption loses focus.
+         */
+        _onCaptionBlur = (): void => {
+            this.caption?.removeAttribute('contenteditable');
+        }
+
+        /**
+         * Keeps key presses in the caption from Quill's keyboard bindings.
+         * Enter and Escape end editing and move the caret to the line after the figure (captions are a single line).
+         *
+         * @param event - The keydown event.
+         */
+        _onCaptionKeyDown = (event: KeyboardEvent): void => {
+            event.stopPropagation();
+            if (event.key === 'Enter' || event.key === 'Escape') {
+                event.preventDefault();
+                this.caption?.blur();
+                const quill = QuillConstructor.find(this.scroll.domNode.parentElement);
+                if (quill && typeof quill.setSelection === 'function') {
+                    quill.setSelection(this.offset(this.scroll) + 1, 0, QuillConstructor.sources.USER);
+                }
+            }
+        }
+
+        /**
+         * Inserts pasted content into the caption as plain text on a single line.
+         *
+         * @param event - The paste event.
+         */
+        _onCaptionPaste = (event: ClipboardEvent): void => {
+            event.stopPropagation();
+            event.preventDefault();
+            const text = (event.clipboardData?.getData('text/plain') ?? '').replace(/\s+/g, ' ');
+            if (text) {
+                this.domNode.ownerDocument.execCommand('insertText', false, text);
+            }
+        }
+
+        /**
+         * Prevents content being dropped into the caption.
+         *
+         * @param event - The drop event.
+         */
+        _onCaptionDrop = (event: DragEvent): void => {
+            event.stopPropagation();
+            event.preventDefault();
+        }
+
+        _stopPropagation = (event: Event): void => {
+            event.stopPropagation();
+        }
+
+        /**
+         * Sets the `--resize-width` style property and `data-relative-size` attribute on the figure so that
+         * css can size the figure to the image width.
+         *
+         * @param width - The image width attribute value, or a falsy value if removed.
+         */
+        _updateWidth = (width: string | null): void => {
+            if (width) {
+                // width style value must include units, add 'px' if numeric only
+                const cssWidth = isNaN(Number(width.trim().slice(-1))) ? width : `${width}px`;
+                this.domNode.style.setProperty('--resize-width', cssWidth);
+                this.domNode.dataset.relativeSize = `${cssWidth.endsWith('%')}`;
+            } else {
+                this.domNode.style.removeProperty('--resize-width');
+                this.domNode.dataset.relativeSize = 'false';
+            }
+        }
+
+        /**
+         * Wraps the image in a link, updates the existing link, or removes it.
+         *
+         * @param image - The figure image.
+         * @param url - The link URL, or a falsy value to remove the link.
+         */
+        _formatLink = (image: HTMLImageElement, url: string | null): void => {
+            const existing = image.parentElement instanceof HTMLAnchorElement ? image.parentElement : null;
+            if (!url) {
+                existing?.replaceWith(image);
+                return;
+            }
+            const link = existing ?? document.createElement('a');
+            link.setAttribute('href', LinkBlot.sanitize(url));
+            link.setAttribute('rel', 'noopener noreferrer');
+            link.setAttribute('target', '_blank');
+            if (!existing) {
+                image.replaceWith(link);
+                link.append(image);
+            }
+        }
+    }
+}
@@ -1,9 +1,11 @@
+import { RESPONSIVE_WIDTHS_ATTRIBUTE } from '../responsive/ResponsiveWidths';
 
 /**
  * Factory function to create a custom Quill Image blot class supporting additional attributes.
  *
  * This function returns a class extending Quill's native Image blot, adding support for the `title` attribute
- * (in addition to `alt`, `height`, and `width`). The returned class overrides the static `formats` method
+ * (in addition to `alt`, `height`, and `width`), and the `responsiveWidths` format (the `data-responsive-widths` attribute
+ * holding the breakpoint widths, see `resize.responsive`). The returned class overrides the static `formats` method
  * to extract these attributes from the DOM node, and the instance `format` method to set or remove them.
  *
  * @param QuillConstructor - The Quill constructor or instance used to import the base Image blot.
@@ -46,7 +48,7 @@ export const createAltTitleImageBlotClass = (QuillConstructor: any): any => {
     return class Image extends ImageBlot {
         static blotName = 'image';
         static formats(domNode: Element) {
-            return ATTRIBUTES.reduce(
+            const formats = ATTRIBUTES.reduce(
                 (formats: Record<string, string | null>, attribute) => {
                     if (domNode.hasAttribute(attribute)) {
                         formats[attribute] = domNode.getAttribute(attribute);
@@ -55,6 +57,10 @@ export const createAltTitleImageBlotClass = (QuillConstructor: any): any => {
                 },
                 {},
             );
+            if (domNode.hasAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE)) {
+                formats.responsiveWidths = domNode.getAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE);
+            }
+            return formats;
         }
 
         format(name: string, value: string) {
@@ -64,6 +70,12 @@ export const createAltTitleImageBlotClass = (QuillConstructor: any): any => {
                 } else {
                     this.domNode.removeAttribute(name);
                 }
+            } else if (name === 'responsiveWidths') {
+                if (value) {
+                    this.domNode.setAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE, value);
+                } else {
+                    this.domNode.removeAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE);
+                }
             } else {
                 super.format(name, value);
             }
@@ -0,0 +1,166 @@
+import { RESPONSIVE_WIDTHS_ATTRIBUTE } from '../responsive/ResponsiveWidths';
+
+// boolean attributes toggled by the media action, stored as `true` in the delta
+export const MEDIA_BOOLEAN_ATTRIBUTES = ['controls', 'autoplay', 'muted', 'loop'];
+
+/**
+ * Creates a Quill block embed blot class for a native (HTML5) media element.
+ *
+ * The media source is the blot value. The `width`, `height` and `poster` attributes and the boolean
+ * attributes in `MEDIA_BOOLEAN_ATTRIBUTES` are blot formats, so they are kept in the delta and applied
+ * through Quill (and can be undone). The breakpoint widths (`data-responsive-widths`) are kept as the
+ * `responsiveWidths` format.
+ *
+ * @param QuillConstructor - The Quill constructor or instance used to import the base BlockEmbed blot.
+ * @param blotName - The blot name, used as the delta insert key.
+ * @param tagName - The element tag name (`VIDEO` or `AUDIO`).
+ * @param className - The class name identifying the blot.
+ * @param attributes - The value attributes stored as formats (boolean attributes are added to these).
+ * @returns A media blot class.
+ */
+const createMediaBlotClass = (
+    QuillConstructor: any,
+    blotName: string,
+    tagName: string,
+    className: string,
+    attributes: string[]
+): any => {
+    const BlockEmbed = QuillConstructor.import('blots/block/embed') as any;
+    const LinkBlot = QuillConstructor.import('formats/link') as any;
+    const ATTRIBUTES = [...attributes, ...MEDIA_BOOLEAN_ATTRIBUTES];
+
+    return class MediaEmbed extends BlockEmbed {
+        static blotName = blotName;
+        static tagName = tagName;
+        static className = className;
+
+        static create(value: string) {
+            const node = super.create(value) as HTMLMediaElement;
+            node.setAttribute('src', this.sanitize(value));
+            node.setAttribute('preload', 'metadata');
+            return node;
+        }
+
+        static sanitize(url: string): string {
+            return LinkBlot.sanitize(url);
+        }
+
+        /**
+         * Returns the media source from the `src` attribute, or the first `<source>` element
+         * (for pasted html).
+         */
+        static value(domNode: HTMLElement): string {
+            return domNode.getAttribute('src') ??
+                domNode.querySelector('source[src]')?.getAttribute('src') ??
+                '';
+        }
+
+        static formats(domNode: HTMLElement) {
+            const formats = ATTRIBUTES.reduce((formats: Record<string, string | boolean>, attribute) => {
+                if (domNode.hasAttribute(attribute)) {
+                    formats[attribute] = MEDIA_BOOLEAN_ATTRIBUTES.indexOf(attribute) > -1
+                        ? true
+                        : domNode.getAttribute(attribute) as string;
+                }
+                return formats;
+            }, {});
+            if (domNode.hasAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE)) {
+                formats.responsiveWidths = domNode.getAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE) as string;
+            }
+            return formats;
+        }
+
+        format(name: string, value: any) {
+            if (ATTRIBUTES.indexOf(name) > -1) {
+                if (value) {
+                    this.domNode.setAttribute(name, MEDIA_BOOLEAN_ATTRIBUTES.indexOf(name) > -1 ? '' : value);
+                } else {
+                    this.domNode.removeAttribute(name);
+                }
+                if (name === 'muted') {
+                    // the muted attribute only sets the initial state, update the element as well
+                    (this.domNode as HTMLMediaElement).muted = !!value;
+                } else if (name === 'width') {
+                    this._updateWidth(value);
+                }
+            } else if (name === 'responsiveWidths') {
+                if (value) {
+                    this.domNode.setAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE, value);
+                } else {
+                    this.domNode.removeAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE);
+                }
+            } else {
+                super.format(name, value);
+            }
+        }
+
+        /**
+         * Sets the `--resize-width` style property and `data-relative-size` attribute on the element
+         * so that css can size it from the width attribute (audio elements have no width attribute mapping).
+         *
+         * @param width - The width attribute value, or a falsy value if removed.
+         */
+        _updateWidth = (width: string | null): void => {
+            if (width) {
+                // width style value must include units, add 'px' if numeric only
+                const cssWidth = isNaN(Number(width.trim().slice(-1))) ? width : `${width}px`;
+                this.domNode.style.setProperty('--resize-width', cssWidth);
+                this.domNode.dataset.relativeSize = `${cssWidth.endsWith('%')}`;
+            } else {
+                this.domNode.style.removeProperty('--resize-width');
+                this.domNode.dataset.relativeSize = 'false';
+            }
+        }
+    }
+}
+
+/**
+ * Factory function to create a Quill block embed blot for a native `<video>` element.
+ *
+ * Unlike the Quill `video` blot (an `<iframe>`), the element receives pointer events, so it is selected
+ * by clicking it directly rather than through a proxy image.
+ *
+ * @param QuillConstructor - The Quill constructor or instance used to import the base BlockEmbed blot.
+ * @returns A NativeVideo blot class to register as `formats/nativeVideo`.
+ *
+ * @remarks
+ * - The blot value is the video source url. `width`, `height`, `poster`, `controls`, `autoplay`, `muted` and `loop`
+ *   are blot formats, e.g. `{ insert: { nativeVideo: 'https://example.com/video.mp4' }, attributes: { controls: true } }`.
+ * - The element is created with `preload="metadata"` so that the first frame and duration are loaded but not the whole file.
+ * - Block attributors such as the iframe align format are applied to the video element.
+ *
+ * @example
+ * ```typescript
+ * const NativeVideo = createNativeVideoBlotClass(Quill);
+ * Quill.register({ 'formats/nativeVideo': NativeVideo });
+ * quill.insertEmbed(0, 'nativeVideo', 'https://example.com/video.mp4');
+ * quill.formatText(0, 1, { controls: true });
+ * ```
+ */
+export const createNativeVideoBlotClass = (QuillConstructor: any): any => {
+    return createMediaBlotClass(QuillConstructor, 'nativeVideo', 'VIDEO', 'ql-native-video', ['width', 'height', 'poster']);
+}
+
+/**
+ * Factory function to create a Quill block embed blot for a native `<audio>` element.
+ *
+ * @param QuillConstructor - The Quill constructor or instance used to import the base BlockEmbed blot.
+ * @returns A NativeAudio blot class to register as `formats/nativeAudio`.
+ *
+ * @remarks
+ * - The blot value is the audio source url. `width`, `controls`, `autoplay`, `muted` and `loop` are blot formats.
+ * - Audio elements have no width attribute mapping, the width is applied by css from the `--resize-width`
+ *   style property (see the suggested css).
+ * - An audio element without `controls` is not displayed by the browser and so cannot be selected in the editor.
+ *
+ * @example
+ * ```typescript
+ * const NativeAudio = createNativeAudioBlotClass(Quill);
+ * Quill.register({ 'formats/nativeAudio': NativeAudio });
+ * quill.insertEmbed(0, 'nativeAudio', 'https://example.com/audio.mp3');
+ * quill.formatText(0, 1, { controls: true });
+ * ```
+ */
+export const createNativeAudioBlotClass = (QuillConstructor: any): any => {
+    return createMediaBlotClass(QuillConstructor, 'nativeAudio', 'AUDIO', 'ql-native-audio', ['width']);
+}
@@ -1,3 +1,7 @@
+import { findIframeProvider } from '../providers/IframeProviders';
+import type { IframeProvider } from '../Options';
+import { RESPONSIVE_WIDTHS_ATTRIBUTE } from '../responsive/ResponsiveWidths';
+
 /**
  * Factory function to create a custom Quill video blot class with responsive styling.
  *
@@ -7,6 +11,8 @@
  * @remarks
  * The returned class, `VideoResponsive`, overrides the default video blot to ensure videos are displayed responsively.
  * The aspect ratio is controlled via the static `aspectRatio` property and applied to the video element's style.
+ * If the video source matches one of the static `providers` (see `video.providers`), the provider's aspect ratio is used instead.
+ * The breakpoint widths (`data-responsive-widths`, see `resize.responsive`) are kept in the delta as the `responsiveWidths` format.
  *
  * @example
  * ```typescript
@@ -22,7 +28,8 @@ export const createResponsiveVideoBlotClass = (QuillConstructor: any): any => {
      * Extends `VideoEmbed` to ensure videos use a 16:9 aspect ratio and full width.
      *
      * @remarks
-     * The aspect ratio is set via the `aspectRatio` static property and applied to the video element's style.
+     * The aspect ratio is set via the `aspectRatio` static property, or the aspect ratio of the matching provider
+     * in the `providers` static property, and applied to the video element's style.
      *
      * @example
      * ```typescript
@@ -34,14 +41,111 @@ export const createResponsiveVideoBlotClass = (QuillConstructor: any): any => {
     return class VideoResponsive extends VideoEmbed {
         static blotName = 'video';
         static aspectRatio: string = "16 / 9 auto"
+        static providers: IframeProvider[] = [];
         static create(value: string) {
             const node = super.create(value);
             node.setAttribute('width', '100%');
-            node.style.aspectRatio = this.aspectRatio;
+            node.style.aspectRatio = findIframeProvider(this.providers, node)?.aspectRatio ?? this.aspectRatio;
             return node;
         }
+        static formats(domNode: Element) {
+            const formats = super.formats(domNode);
+            if (domNode.hasAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE)) {
+                formats.responsiveWidths = domNode.getAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE);
+            }
+            return formats;
+        }
+        format(name: string, value: string) {
+            if (name === 'responsiveWidths') {
+                if (value) {
+                    this.domNode.setAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE, value);
+                } else {
+                    this.domNode.removeAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE);
+                }
+            } else {
+                super.format(name, value);
+            }
+        }
         html() {
             return this.domNode.outerHTML;
         }
     }
 }
+
+// css aspect-ratio values kept by the aspectRatio format, e.g. '16 / 9', '16/9 auto' or 'auto 16 / 9'
+const ASPECT_RATIO_PATTERN = /^\s*(auto\s+)?\d+(\.\d+)?\s*\/\s*\d+(\.\d+)?(\s+auto)?\s*$/;
+
+/**
+ * Parses the ratio of a css aspect-ratio value such as '16 / 9 auto'.
+ *
+ * @param value - The css aspect-ratio value.
+ * @returns {number | null} The width/height ratio, or `null` if the value does not contain a ratio.
+ */
+const parseAspectRatio = (value: string | null | undefined): number | null => {
+    const ratio = (value ?? '').match(/(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)/);
+    if (!ratio) return null;
+    const parsed = parseFloat(ratio[1]) / parseFloat(ratio[2]);
+    return isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Factory function to create a video blot class that keeps the aspect ratio set by a free resize in the delta.
+ *
+ * @param QuillConstructor - The Quill constructor or instance used to import the registered video format.
+ * @returns A class extending the registered video blot (Quill's VideoEmbed or the custom responsive video blot)
+ *   with the `aspectRatio` format.
+ *
+ * @remarks
+ * - Registered by `BlotFormatter` when `resize.allowFreeResize` is set, after the custom video blot if that is registered.
+ * - The inline aspect ratio is only included in the delta if it differs from the default aspect ratio of the video,
+ *   the aspect ratio of the matching provider in the static `providers` or the static `aspectRatio` otherwise.
+ *   Aspect ratios applied by the custom video blot on creation, or temporarily while resizing, are not kept.
+ * - Only ratios such as `16 / 9` are accepted.
+ * - Removing the format clears the inline aspect ratio, or restores the default if `restoreAspectRatio` is set
+ *   (for the custom video blot, which applies the default on creation).
+ *
+ * @example
+ * ```typescript
+ * const AspectRatioVideo = createAspectRatioVideoBlotClass(Quill);
+ * AspectRatioVideo.aspectRatio = '16 / 9 auto';
+ * Quill.register({ 'formats/video': AspectRatioVideo }, true);
+ * ```
+ */
+export const createAspectRatioVideoBlotClass = (QuillConstructor: any): any => {
+    const VideoEmbed = QuillConstructor.import("formats/video") as any;
+
+    return class AspectRatioVideo extends VideoEmbed {
+        static aspectRatio: string = "16 / 9 auto";
+        static providers: IframeProvider[] = [];
+        static restoreAspectRatio: boolean = false;
+        static getDefaultAspectRatio(domNode: Element): string {
+            return findIframeProvider(this.providers, domNode as HTMLElement)?.aspectRatio ?? this.aspectRatio;
+        }
+        static formats(domNode: Element) {
+            const formats = super.formats(domNode);
+            const aspectRatio = (domNode as HTMLElement).style.aspectRatio;
+            if (ASPECT_RATIO_PATTERN.test(aspectRatio)) {
+                const ratio = parseAspectRatio(aspectRatio) as number;
+                const defaultRatio = parseAspectRatio(this.getDefaultAspectRatio(domNode));
+                if (defaultRatio === null || Math.abs(ratio - defaultRatio) > 0.001) {
+                    formats.aspectRatio = aspectRatio;
+                }
+            }
+            return formats;
+        }
+        format(name: string, value: string) {
+            if (name === 'aspectRatio') {
+                if (typeof value === 'string' && ASPECT_RATIO_PATTERN.test(value)) {
+                    this.domNode.style.aspectRatio = value;
+                } else {
+                    this.domNode.style.aspectRatio = this.statics.restoreAspectRatio
+                        ? this.statics.getDefaultAspectRatio(this.domNode)
+                        : '';
+                    if (!this.domNode.getAttribute('style')) this.domNode.removeAttribute('style');
+                }
+            } else {
+                super.format(name, value);
+            }
+        }
+    }
+}
@@ -4,35 +4,109 @@ export default BlotFormatter;
 
 // Options
 export type { Options as Options } from './Options';
+export type { ActionName, ActionConfig } from './Options';
+export type { CustomToolbarButtonOptions, ToolbarButtonContext } from './Options';
+export type { ContextMenuOptions } from './Options';
+export type { InspectOptions } from './Options';
+export type { MediaOptions } from './Options';
+export type { EmbedSpecOptions, EmbedSizing } from './Options';
+export type { VideoOptions, IframeProvider } from './Options';
+export type { ToolbarPlacement } from './Options';
+export type { ResizeSnapOptions, SizeConstraint, SizeConstraints } from './Options';
+export type { ResponsiveOptions, ResponsiveBreakpoint } from './Options';
 export { DefaultOptions as DefaultOptions } from './DefaultOptions';
 
+// Events
+export type {
+  BlotFormatterEventMap,
+  BlotFormatterEventName,
+  BlotFormatterEventHandler,
+  BlotFormatterEventPayload,
+  ResizeEventPayload,
+  AlignEventPayload,
+  LinkEventPayload,
+  AttributeEventPayload,
+  CompressEventPayload,
+  CaptionEventPayload,
+  MediaEventPayload,
+  SourceEventPayload
+} from './Events';
+
 // actions
 export { default as Action } from './actions/Action';
+export type { InspectInfo } from './actions/Action';
 export { default as AlignAction } from './actions/align/AlignAction';
 export { default as DefaultAligner } from './actions/align/DefaultAligner';
 export { default as DeleteAction } from './actions/DeleteAction';
 export { default as ResizeAction } from './actions/ResizeAction';
+export { default as ResizeSnapper } from './actions/ResizeSnapper';
 export { default as AttributeAction} from './actions/AttributeAction';
 export { default as LinkAction} from './actions/LinkAction';
 export { default as CaretAction} from './actions/CaretAction';
+export { default as CaptionAction} from './actions/CaptionAction';
+export { default as MediaAction} from './actions/MediaAction';
+export { default as ProviderAction} from './actions/ProviderAction';
 
 // toolbar
 export {default as Toolbar} from './actions/toolbar/Toolbar';
 export {default as ToolbarButton} from './actions/toolbar/ToolbarButton';
+export {default as CustomToolbarButton} from './actions/toolbar/CustomToolbarButton';
+export {default as ContextMenu} from './actions/toolbar/ContextMenu';
 
 // specs
 export { default as BlotSpec } from './specs/BlotSpec';
 export { default as ImageSpec } from './specs/ImageSpec';
 export { default as UnclickableBlotSpec } from './specs/UnclickableBlotSpec';
 export { default as IframeVideoSpec } from './specs/IframeVideoSpec';
+export { default as NativeMediaSpec } from './specs/NativeMediaSpec';
+export { default as NativeVideoSpec } from './specs/NativeVideoSpec';
+export { default as NativeAudioSpec } from './specs/NativeAudioSpec';
+export { default as GenericEmbedSpec } from './specs/GenericEmbedSpec';
 
 // format factories
 export { createIframeAlignAttributor } from './actions/align/AlignFormats';
 export { createImageAlignAttributor } from './actions/align/AlignFormats';
 
+// size constraints
+export { getSizeLimits, parseSizeConstraint, constrainWidth, constrainHeight } from './actions/SizeConstraints';
+export type { SizeLimits } from './actions/SizeConstraints';
+
+// responsive widths
+export { default as BreakpointPreview } from './responsive/BreakpointPreview';
+export {
+  RESPONSIVE_WIDTHS_ATTRIBUTE,
+  sortBreakpoints,
+  parseResponsiveWidths,
+  formatResponsiveWidths,
+  setResponsiveWidth,
+  getResponsiveWidth,
+  getResponsiveSizes,
+  getResponsiveCss
+} from './responsive/ResponsiveWidths';
+export type { ResponsiveCssOptions } from './responsive/ResponsiveWidths';
+
 // blot factories
 export { createAltTitleImageBlotClass } from './blots/Image';
-export { createResponsiveVideoBlotClass } from './blots/Video';
+export { createResponsiveVideoBlotClass, createAspectRatioVideoBlotClass } from './blots/Video';
+export { createFigureBlotClass } from './blots/Figure';
+export type { FigureValue } from './blots/Figure';
+export { createNativeVideoBlotClass, createNativeAudioBlotClass } from './blots/Media';
 
 // tooltip
 export { default as TooltipContainPosition } from './tooltip/TooltipContainPosition';
+
+// inspect mode
+export { default as Inspector } from './inspect/Inspector';
+
+// iframe providers
+export {
+  DEFAULT_IFRAME_PROVIDERS,
+  findIframeProvider,
+  getStartTime,
+  setStartTime,
+  isPrivacyEnhanced,
+  setPrivacyEnhanced
+} from './providers/IframeProviders';
+
+// layout tracking
+export { default as LayoutTracker } from './tracking/LayoutTracker';
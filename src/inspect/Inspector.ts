@@ -0,0 +1,183 @@
+import BlotFormatter from '../BlotFormatter';
+import type BlotSpec from '../specs/BlotSpec';
+import type { InspectInfo } from '../actions/Action';
+
+/**
+ * Shows read-only information about an embed when it is clicked in a disabled (`ql-disabled`) editor.
+ *
+ * The inspected embed is outlined and an info panel is displayed below it listing details such as the
+ * displayed and natural size, file size, alt text, title and link. Nothing in the panel can be edited.
+ *
+ * The rows are built from the same metadata used by the formatter: the actions the spec would create
+ * (see `BlotSpec.getActions()`) each describe the attributes they edit with `Action.getInspectInfo()`,
+ * followed by any rows from `BlotSpec.getInspectInfo()`. Actions disabled by options (e.g. `allowAltTitleEdit`)
+ * therefore contribute no rows, and custom actions can add their own.
+ *
+ * @remarks
+ * - Created by `BlotFormatter` when `inspect.allowInspect` is set. Specs show it via `BlotFormatter.show()`
+ *   while the formatter is disabled.
+ * - Closed by clicking outside the panel, pressing Escape, or when the editor is enabled again.
+ * - The outline follows the embed when the editor scrolls or changes size (see `LayoutTracker`).
+ */
+export default class Inspector {
+  formatter: BlotFormatter;
+  element: HTMLElement;
+  panel: HTMLElement;
+  spec: BlotSpec | null = null;
+  private _unsubscribe: (() => void) | null = null;
+  private debug: boolean;
+
+  constructor(formatter: BlotFormatter) {
+    this.formatter = formatter;
+    this.debug = formatter.options.debug ?? false;
+    const options = this.formatter.options.inspect;
+    this.element = document.createElement('div');
+    this.element.classList.add(options.className);
+    if (options.style) {
+      Object.assign(this.element.style, options.style);
+    }
+    this.panel = document.createElement('div');
+    this.panel.classList.add(options.panelClassName);
+    this.panel.setAttribute('role', 'status');
+    if (options.panelStyle) {
+      Object.assign(this.panel.style, options.panelStyle);
+    }
+  }
+
+  /**
+   * Indicates whether an embed is currently being inspected.
+   */
+  get isOpen(): boolean {
+    return !!this.spec;
+  }
+
+  /**
+   * Outlines the spec's target element and displays its information panel,
+   * replacing any embed already being inspected.
+   *
+   * @param spec - The spec with its target element set (e.g. by its click handler).
+   */
+  show = (spec: BlotSpec): void => {
+    const target = spec.getTargetElement();
+    if (!target) return;
+    this.hide();
+    // hide() resets the target of the previous spec, which may be the same spec
+    spec.setTarget(target);
+    this.spec = spec;
+    this._render(this.getInfo(spec, target));
+    this.formatter.quill.container.appendChild(this.element);
+    this._reposition();
+    this._unsubscribe = this.formatter.layoutTracker.subscribe(this._reposition);
+    this.formatter.layoutTracker.start();
+    document.addEventListener('pointerdown', this._onDocumentPointerDown, true);
+    this.formatter.rootNode.addEventListener('keydown', this._onKeyDown as EventListener);
+    if (this.debug) console.debug('Inspector show', target);
+  }
+
+  /**
+   * Removes the outline and information panel and resets the inspected spec.
+   */
+  hide = (): void => {
+    if (!this.spec) return;
+    this.spec.onHide();
+    this.spec = null;
+    this._unsubscribe?.();
+    this._unsubscribe = null;
+    document.removeEventListener('pointerdown', this._onDocumentPointerDown, true);
+    this.formatter.rootNode.removeEventListener('keydown', this._onKeyDown as EventListener);
+    this.element.remove();
+    this.panel.innerHTML = '';
+    if (this.debug) console.debug('Inspector hide');
+  }
+
+  /**
+   * Hides the inspector. Called when the formatter is destroyed.
+   */
+  destroy = (): void => {
+    this.hide();
+  }
+
+  /**
+   * Collects the information rows for a target element from the spec's actions, followed by the spec itself.
+   * Actions are created for this purpose only - `onCreate()` is not called and they are discarded afterwards.
+   *
+   * @param spec - The spec handling the target.
+   * @param target - The element being inspected.
+   * @returns {InspectInfo[]} The rows to display.
+   */
+  getInfo = (spec: BlotSpec, target: HTMLElement): InspectInfo[] => {
+    const info: InspectInfo[] = [];
+    spec.getActions().forEach(action => {
+      try {
+        info.push(...action.getInspectInfo(target));
+      } catch (error) {
+        console.error(`Inspector: ${action.constructor.name} getInspectInfo error:`, error);
+      }
+    });
+    info.push(...spec.getInspectInfo());
+    if (this.debug) console.debug('Inspector info', info);
+    return info;
+  }
+
+  /**
+   * Fills the information panel with a label and value for each row.
+   * Values are set as text so attribute values are never parsed as html.
+   * The panel is omitted if there are no rows.
+   *
+   * @param info - The rows to display.
+   */
+  private _render = (info: InspectInfo[]): void => {
+    const labelStyle = this.formatter.options.inspect.labelStyle;
+    this.panel.innerHTML = '';
+    info.forEach(({ label, value }) => {
+      const labelElement = document.createElement('span');
+      labelElement.textContent = label;
+      if (labelStyle) {
+        Object.assign(labelElement.style, labelStyle);
+      }
+      const valueElement = document.createElement('span');
+      valueElement.textContent = value;
+      this.panel.append(labelElement, valueElement);
+    });
+    if (info.length) {
+      this.element.append(this.panel);
+    } else {
+      this.panel.remove();
+    }
+  }
+
+  /**
+   * Positions the outline over the inspected element, or hides the inspector if the element
+   * has been removed from the editor.
+   */
+  private _reposition = (): void => {
+    const target = this.spec?.getOverlayElement();
+    if (!target?.isConnected) {
+      this.hide();
+      return;
+    }
+    Object.assign(this.element.style, this.formatter._getOverlayRect(target));
+  }
+
+  /**
+   * Hides the inspector when the pointer is pressed outside the information panel.
+   *
+   * @param event - The pointerdown event.
+   */
+  private _onDocumentPointerDown = (event: PointerEvent): void => {
+    const target = this.formatter.getEventTarget(event);
+    if (target instanceof Node && this.panel.contains(target)) return;
+    this.hide();
+  }
+
+  /**
+   * Hides the inspector when Escape is pressed.
+   *
+   * @param event - The keydown event.
+   */
+  private _onKeyDown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      this.hide();
+    }
+  }
+}
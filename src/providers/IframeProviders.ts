@@ -0,0 +1,139 @@
+import type { IframeProvider } from '../Options';
+
+/**
+ * The built-in iframe providers, used as the default `video.providers` option.
+ *
+ * - YouTube: 16/9, start time as the `start` query parameter, privacy-enhanced domain `www.youtube-nocookie.com`.
+ * - Vimeo: 16/9, start time in the url hash (`#t=90s`).
+ * - Loom: 16/10.
+ * - Google Maps: 4/3, at least 200px wide so that the map controls remain usable.
+ */
+export const DEFAULT_IFRAME_PROVIDERS: IframeProvider[] = [
+  {
+    name: 'YouTube',
+    pattern: /^(https?:)?\/\/(www\.)?(youtube\.com|youtube-nocookie\.com)\/embed\//i,
+    aspectRatio: '16 / 9',
+    minWidthPx: 200,
+    startTime: { param: 'start' },
+    privacyDomain: { standard: 'www.youtube.com', enhanced: 'www.youtube-nocookie.com' }
+  },
+  {
+    name: 'Vimeo',
+    pattern: /^(https?:)?\/\/player\.vimeo\.com\/video\//i,
+    aspectRatio: '16 / 9',
+    minWidthPx: 200,
+    startTime: { param: 't', hash: true, suffix: 's' }
+  },
+  {
+    name: 'Loom',
+    pattern: /^(https?:)?\/\/(www\.)?loom\.com\/embed\//i,
+    aspectRatio: '16 / 10',
+    minWidthPx: 200
+  },
+  {
+    name: 'Google Maps',
+    pattern: /^(https?:)?\/\/(www\.|maps\.)?google\.[a-z.]+\/maps\/embed/i,
+    aspectRatio: '4 / 3',
+    minWidthPx: 200
+  }
+];
+
+/**
+ * Returns the first provider whose `pattern` matches the iframe source.
+ *
+ * @param providers - The providers to test, in order (`video.providers`).
+ * @param src - The iframe `src`, or an iframe element.
+ * @returns {IframeProvider | null} The matching provider, or `null` if none match.
+ */
+export const findIframeProvider = (
+  providers: IframeProvider[],
+  src: string | HTMLElement | null | undefined
+): IframeProvider | null => {
+  const url = src instanceof HTMLElement ? src.getAttribute('src') : src;
+  if (!url) return null;
+  return providers.find(provider => provider.pattern.test(url)) ?? null;
+}
+
+/**
+ * Reads the start time (in seconds) from an iframe source using the provider's `startTime` settings.
+ *
+ * @param provider - The provider of the iframe.
+ * @param src - The iframe source.
+ * @returns {number | null} The start time in seconds, or `null` if not set or not supported by the provider.
+ */
+export const getStartTime = (provider: IframeProvider, src: string): number | null => {
+  if (!provider.startTime) return null;
+  const url = _parseUrl(src);
+  if (!url) return null;
+  const params = provider.startTime.hash
+    ? new URLSearchParams(url.hash.slice(1))
+    : url.searchParams;
+  const value = parseInt(params.get(provider.startTime.param) ?? '', 10);
+  return isNaN(value) ? null : value;
+}
+
+/**
+ * Returns the iframe source with the start time set, or removed if `seconds` is `null` or 0.
+ *
+ * @param provider - The provider of the iframe.
+ * @param src - The iframe source.
+ * @param seconds - The start time in seconds.
+ * @returns {string} The new source, unchanged if the provider does not support a start time.
+ */
+export const setStartTime = (provider: IframeProvider, src: string, seconds: number | null): string => {
+  const url = _parseUrl(src);
+  if (!provider.startTime || !url) return src;
+  const { param, hash, suffix } = provider.startTime;
+  const params = hash ? new URLSearchParams(url.hash.slice(1)) : url.searchParams;
+  if (seconds) {
+    params.set(param, `${Math.round(seconds)}${suffix ?? ''}`);
+  } else {
+    params.delete(param);
+  }
+  if (hash) {
+    url.hash = params.toString();
+  }
+  return _formatUrl(url, src);
+}
+
+/**
+ * Determines whether the iframe source uses the provider's privacy-enhanced domain.
+ *
+ * @param provider - The provider of the iframe.
+ * @param src - The iframe source.
+ * @returns {boolean} `true` if the source host is the provider's `privacyDomain.enhanced` domain.
+ */
+export const isPrivacyEnhanced = (provider: IframeProvider, src: string): boolean => {
+  const url = _parseUrl(src);
+  return !!provider.privacyDomain && url?.hostname === provider.privacyDomain.enhanced;
+}
+
+/**
+ * Returns the iframe source switched to the provider's privacy-enhanced or standard domain.
+ *
+ * @param provider - The provider of the iframe.
+ * @param src - The iframe source.
+ * @param enhanced - `true` for the privacy-enhanced domain, `false` for the standard domain.
+ * @returns {string} The new source, unchanged if the provider has no `privacyDomain`.
+ */
+export const setPrivacyEnhanced = (provider: IframeProvider, src: string, enhanced: boolean): string => {
+  const url = _parseUrl(src);
+  if (!provider.privacyDomain || !url) return src;
+  url.hostname = enhanced ? provider.privacyDomain.enhanced : provider.privacyDomain.standard;
+  return _formatUrl(url, src);
+}
+
+// parse the iframe source, allowing protocol relative urls (//www.youtube.com/embed/...)
+const _parseUrl = (src: string): URL | null => {
+  try {
+    return new URL(src, 'https://localhost');
+  } catch {
+    return null;
+  }
+}
+
+// keep protocol relative sources protocol relative
+const _formatUrl = (url: URL, src: string): string => {
+  const href = url.toString();
+  return src.startsWith('//') ? href.slice(url.protocol.length) : href;
+}
@@ -0,0 +1,117 @@
+import BlotFormatter from '../BlotFormatter';
+import type { ResponsiveBreakpoint } from '../Options';
+import { getResponsiveCss } from './ResponsiveWidths';
+
+/**
+ * Previews the breakpoint widths of the editor's embeds (`resize.responsive`).
+ *
+ * While a breakpoint is active, the embeds are shown at their width for that breakpoint (or the nearest smaller
+ * breakpoint with a width, mobile first) instead of their `width` attribute. The preview css is generated with
+ * `getResponsiveCss` into a style element in the formatter's style host, and regenerated on each editor change.
+ * The Quill container is given a `data-breakpoint-preview` attribute with the active breakpoint name, which scopes
+ * the preview css to the editor and can be used to style the editor while previewing.
+ *
+ * @remarks
+ * - The active breakpoint is set by the resize action's breakpoint toolbar button, and applies to the whole editor
+ *   until it is switched back to the base width.
+ * - The editor itself is not resized, % widths are previewed relative to the current editor width.
+ *
+ * @example
+ * ```typescript
+ * formatter.breakpointPreview.setActive('tablet');
+ * // ... later
+ * formatter.breakpointPreview.setActive(null);
+ * ```
+ */
+export default class BreakpointPreview {
+  formatter: BlotFormatter;
+  private _active: string | null = null;
+  private _style: HTMLStyleElement | null = null;
+  private debug: boolean;
+
+  constructor(formatter: BlotFormatter) {
+    this.formatter = formatter;
+    this.debug = formatter.options?.debug ?? false;
+  }
+
+  /**
+   * The name of the breakpoint being previewed, or `null` for the base width.
+   */
+  get active(): string | null {
+    return this._active;
+  }
+
+  /**
+   * The breakpoint being previewed, or `null` for the base width.
+   */
+  get breakpoint(): ResponsiveBreakpoint | null {
+    return this.formatter.options.resize.responsive.breakpoints
+      .find(breakpoint => breakpoint.name === this._active) ?? null;
+  }
+
+  /**
+   * Returns the label of a breakpoint for the size info box, `resize.responsive.baseLabel` for the base width.
+   *
+   * @param name - The breakpoint name, the active breakpoint by default.
+   * @returns {string} The breakpoint label, or its name if it has no label.
+   */
+  getLabel = (name: string | null = this._active): string => {
+    const { breakpoints, baseLabel } = this.formatter.options.resize.responsive;
+    const breakpoint = breakpoints.find(breakpoint => breakpoint.name === name);
+    return breakpoint ? breakpoint.label ?? breakpoint.name : baseLabel;
+  }
+
+  /**
+   * Sets the breakpoint to preview. Names that are not in `resize.responsive.breakpoints` end the preview.
+   *
+   * @param name - The breakpoint name, or `null` to show the base widths.
+   */
+  setActive = (name: string | null): void => {
+    const breakpoints = this.formatter.options.resize.responsive.breakpoints;
+    this._active = breakpoints.some(breakpoint => breakpoint.name === name) ? name : null;
+    const container: HTMLElement = this.formatter.quill.container;
+    if (this._active) {
+      container.setAttribute('data-breakpoint-preview', this._active);
+      if (!this._style) {
+        this._style = document.createElement('style');
+        this.formatter.styleHost.appendChild(this._style);
+        this.formatter.quill.on('text-change', this.refresh);
+      }
+      this.refresh();
+    } else {
+      container.removeAttribute('data-breakpoint-preview');
+      this._removeStyle();
+    }
+    if (this.debug) console.debug('BreakpointPreview active breakpoint:', this._active);
+  }
+
+  /**
+   * Regenerates the preview css from the current breakpoint widths of the editor's embeds.
+   * Called on each editor change, and by the resize action while a breakpoint width is resized.
+   */
+  refresh = (): void => {
+    if (!this._style || !this._active) return;
+    this._style.textContent = getResponsiveCss(
+      this.formatter.quill.root,
+      this.formatter.options.resize.responsive.breakpoints,
+      { scope: `[data-breakpoint-preview="${this._active}"] .ql-editor`, preview: this._active }
+    );
+  }
+
+  /**
+   * Ends any preview and removes the preview css.
+   */
+  destroy = (): void => {
+    this.setActive(null);
+  }
+
+  /**
+   * Removes the preview style element and its editor change listener.
+   */
+  private _removeStyle = (): void => {
+    if (!this._style) return;
+    this.formatter.quill.off('text-change', this.refresh);
+    this._style.remove();
+    this._style = null;
+  }
+}
@@ -0,0 +1,213 @@
+import type { ResponsiveBreakpoint } from '../Options';
+
+/**
+ * The attribute holding the breakpoint widths of an embed, e.g. `data-responsive-widths="tablet:50%;desktop:480px"`.
+ * Kept in the delta as the `responsiveWidths` format by the custom image, figure, video and native media blots.
+ */
+export const RESPONSIVE_WIDTHS_ATTRIBUTE = 'data-responsive-widths';
+
+// a single breakpoint width: name and width in px or %, e.g. 'tablet:50%'
+const WIDTH_ENTRY_PATTERN = /^([\w-]+):(\d+(?:\.\d+)?(?:px|%))$/;
+
+// elements sized by css from the width of their target (aligned image wrappers and captioned image figures)
+const SIZE_WRAPPER_SELECTORS = ['[class^="ql-image-align-"]', 'figure.ql-figure'];
+
+/**
+ * Options for `getResponsiveCss`.
+ *
+ * - `scope`: a selector prefixed to every rule (e.g. `'.article-body'`) to limit the rules to the published content.
+ * - `preview`: the name of a breakpoint to apply without media queries, along with the breakpoints below it.
+ *   `null` applies no breakpoint (the base width). Used for the editor preview.
+ */
+export interface ResponsiveCssOptions {
+  scope?: string;
+  preview?: string | null;
+}
+
+/**
+ * Returns the breakpoints in ascending `minWidthPx` order (mobile first).
+ *
+ * @param breakpoints - The breakpoints from `resize.responsive.breakpoints`.
+ * @returns {ResponsiveBreakpoint[]} A sorted copy of the breakpoints.
+ */
+export const sortBreakpoints = (breakpoints: ResponsiveBreakpoint[]): ResponsiveBreakpoint[] => {
+  return [...breakpoints].sort((a, b) => a.minWidthPx - b.minWidthPx);
+}
+
+/**
+ * Parses a `responsiveWidths` value into the width of each breakpoint. Invalid entries are ignored.
+ *
+ * @param value - The value, e.g. `'tablet:50%;desktop:480px'`.
+ * @returns {Record<string, string>} The widths keyed by breakpoint name, e.g. `{ tablet: '50%', desktop: '480px' }`.
+ */
+export const parseResponsiveWidths = (value: string | null | undefined): Record<string, string> => {
+  const widths: Record<string, string> = {};
+  (value ?? '').split(';').forEach(entry => {
+    const match = entry.trim().match(WIDTH_ENTRY_PATTERN);
+    if (match) {
+      widths[match[1]] = match[2];
+    }
+  });
+  return widths;
+}
+
+/**
+ * Formats breakpoint widths as a `responsiveWidths` value, in breakpoint order. Widths of names that are not
+ * configured breakpoints are kept at the end, empty and invalid widths are dropped.
+ *
+ * @param widths - The widths keyed by breakpoint name, `null` to leave out a breakpoint.
+ * @param breakpoints - The breakpoints from `resize.responsive.breakpoints`.
+ * @returns {string} The value, e.g. `'tablet:50%;desktop:480px'`, or an empty string if there are no widths.
+ */
+export const formatResponsiveWidths = (
+  widths: Record<string, string | null | undefined>,
+  breakpoints: ResponsiveBreakpoint[]
+): string => {
+  const sorted = sortBreakpoints(breakpoints);
+  const order = (name: string): number => {
+    const index = sorted.findIndex(breakpoint => breakpoint.name === name);
+    return index < 0 ? sorted.length : index;
+  }
+  return Object.keys(widths)
+    .filter(name => WIDTH_ENTRY_PATTERN.test(`${name}:${widths[name]}`))
+    .sort((a, b) => order(a) - order(b))
+    .map(name => `${name}:${widths[name]}`)
+    .join(';');
+}
+
+/**
+ * Returns a `responsiveWidths` value with the width of one breakpoint set or removed.
+ *
+ * @param value - The current value.
+ * @param name - The breakpoint name.
+ * @param width - The width in px or % (e.g. `'50%'`), `null` to remove the breakpoint width.
+ * @param breakpoints - The breakpoints from `resize.responsive.breakpoints`.
+ * @returns {string} The new value, an empty string if no widths remain.
+ */
+export const setResponsiveWidth = (
+  value: string | null | undefined,
+  name: string,
+  width: string | null,
+  breakpoints: ResponsiveBreakpoint[]
+): string => {
+  return formatResponsiveWidths({ ...parseResponsiveWidths(value), [name]: width }, breakpoints);
+}
+
+/**
+ * Returns the width an element is displayed at from a breakpoint up: the width of the breakpoint, or of the
+ * nearest smaller breakpoint with a width, or the `width` attribute if none has one (mobile first).
+ *
+ * @param element - The embed element.
+ * @param breakpoints - The breakpoints from `resize.responsive.breakpoints`.
+ * @param name - The breakpoint name, `null` for the base width.
+ * @returns {string | null} The width, or `null` if the element has no width at the breakpoint.
+ */
+export const getResponsiveWidth = (
+  element: Element,
+  breakpoints: ResponsiveBreakpoint[],
+  name: string | null
+): string | null => {
+  const widths = parseResponsiveWidths(element.getAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE));
+  const sorted = sortBreakpoints(breakpoints);
+  for (let index = sorted.findIndex(breakpoint => breakpoint.name === name); index >= 0; index--) {
+    const width = widths[sorted[index].name];
+    if (width) return width;
+  }
+  return element.getAttribute('width');
+}
+
+/**
+ * Returns a `sizes` attribute value for an image from its breakpoint widths and `width` attribute,
+ * e.g. `'(min-width: 1024px) 480px, (min-width: 768px) 50vw, 100vw'`.
+ *
+ * % widths are converted to `vw`, so they are exact only for content spanning the viewport. Images without a
+ * width (or with a width that is not a size) are given `100vw`.
+ *
+ * @param element - The image element.
+ * @param breakpoints - The breakpoints from `resize.responsive.breakpoints`.
+ * @returns {string} The `sizes` value.
+ */
+export const getResponsiveSizes = (element: Element, breakpoints: ResponsiveBreakpoint[]): string => {
+  const toSize = (width: string | null | undefined): string => {
+    const size = parseFloat(width ?? '');
+    if (!width || isNaN(size)) return '100vw';
+    return width.trim().endsWith('%') ? `${size}vw` : `${size}px`;
+  }
+  const widths = parseResponsiveWidths(element.getAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE));
+  return [
+    ...sortBreakpoints(breakpoints)
+      .reverse()
+      .filter(breakpoint => widths[breakpoint.name])
+      .map(breakpoint => `(min-width: ${breakpoint.minWidthPx}px) ${toSize(widths[breakpoint.name])}`),
+    toSize(element.getAttribute('width'))
+  ].join(', ');
+}
+
+/**
+ * Generates the css that applies the breakpoint widths of the embeds in a document.
+ *
+ * Rules are keyed by the `data-responsive-widths` value, so embeds with the same widths share their rules.
+ * Each breakpoint gets a `@media (min-width: ...)` block (mobile first) setting the width of the embed,
+ * or of its aligned image wrapper or captioned image figure (the embed then fills the wrapper).
+ * Widths are applied with `!important` to override the width attributes and inline sizing set by the formatter.
+ *
+ * @param root - The element (or document) containing the embeds, e.g. `quill.root` or a parsed copy of the published html.
+ * @param breakpoints - The breakpoints from `resize.responsive.breakpoints`.
+ * @param options - The rule scope, or a breakpoint to preview without media queries (see `ResponsiveCssOptions`).
+ * @returns {string} The css, an empty string if no embed has breakpoint widths.
+ *
+ * @example
+ * ```typescript
+ * const style = document.createElement('style');
+ * style.textContent = getResponsiveCss(quill.root, formatter.options.resize.responsive.breakpoints, { scope: '.article' });
+ * ```
+ */
+export const getResponsiveCss = (
+  root: ParentNode,
+  breakpoints: ResponsiveBreakpoint[],
+  options: ResponsiveCssOptions = {}
+): string => {
+  const values = new Set<string>();
+  root.querySelectorAll(`[${RESPONSIVE_WIDTHS_ATTRIBUTE}]`).forEach(element => {
+    const value = element.getAttribute(RESPONSIVE_WIDTHS_ATTRIBUTE);
+    // only well formed values are used in selectors
+    if (value && value.split(';').every(entry => WIDTH_ENTRY_PATTERN.test(entry))) {
+      values.add(value);
+    }
+  });
+  let sorted = sortBreakpoints(breakpoints);
+  if (options.preview !== undefined) {
+    sorted = sorted.slice(0, sorted.findIndex(breakpoint => breakpoint.name === options.preview) + 1);
+  }
+  const scope = options.scope ? `${options.scope} ` : '';
+  return sorted
+    .map(breakpoint => {
+      const rules = Array.from(values).flatMap(value => {
+        const width = parseResponsiveWidths(value)[breakpoint.name];
+        return width ? getWidthRules(`[${RESPONSIVE_WIDTHS_ATTRIBUTE}="${value}"]`, width, scope) : [];
+      });
+      if (!rules.length) return '';
+      return options.preview !== undefined
+        ? rules.join('\n')
+        : `@media (min-width: ${breakpoint.minWidthPx}px) {\n${rules.map(rule => `  ${rule}`).join('\n')}\n}`;
+    })
+    .filter(block => !!block)
+    .join('\n');
+}
+
+/**
+ * Returns the css rules applying a width to the embeds matching a selector.
+ *
+ * @param selector - The embed selector.
+ * @param width - The width in px or %.
+ * @param scope - The scope prefix, including a trailing space if set.
+ * @returns {string[]} The rules.
+ */
+const getWidthRules = (selector: string, width: string, scope: string): string[] => {
+  return [
+    `${scope}${selector} { width: ${width} !important; }`,
+    `${scope}img${selector} { height: auto !important; }`,
+    `${SIZE_WRAPPER_SELECTORS.map(wrapper => `${scope}${wrapper}:has(${selector})`).join(', ')} { width: ${width} !important; }`,
+    `${SIZE_WRAPPER_SELECTORS.map(wrapper => `${scope}${wrapper} ${selector}`).join(', ')} { width: 100% !important; }`
+  ];
+}
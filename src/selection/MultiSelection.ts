@@ -0,0 +1,159 @@
+import BlotFormatter from '../BlotFormatter';
+import type BlotSpec from '../specs/BlotSpec';
+import type { Blot } from '../specs/BlotSpec';
+
+/**
+ * An additional blot selected alongside the formatter's current (primary) target.
+ *
+ * - `spec`: the spec that handles the element type (used for `isUnclickable` etc.).
+ * - `element`: the selected target element.
+ * - `overlay`: the outline overlay element displayed over the target.
+ */
+export type SelectedTarget = {
+  spec: BlotSpec;
+  element: HTMLElement;
+  overlay: HTMLElement;
+};
+
+/**
+ * Manages blots selected in addition to the formatter's primary target (`currentSpec`).
+ *
+ * The primary target keeps the full overlay with handles and toolbar. Each additional target
+ * gets its own outline overlay so the user can see the complete selection. Actions that support
+ * group operations (align, resize and delete) read `targets` to apply their change to every
+ * selected blot.
+ *
+ * @remarks
+ * - Targets are added and removed with shift+click (see `BlotFormatter.toggleSelection`).
+ * - The selection is cleared whenever the formatter is hidden.
+ * - Targets that are removed from the editor are dropped on the next reposition.
+ */
+export default class MultiSelection {
+  formatter: BlotFormatter;
+  targets: SelectedTarget[] = [];
+  private debug: boolean;
+
+  constructor(formatter: BlotFormatter) {
+    this.formatter = formatter;
+    this.debug = formatter.options.debug ?? false;
+  }
+
+  /**
+   * The elements of all additional selected targets.
+   */
+  get elements(): HTMLElement[] {
+    return this.targets.map(target => target.element);
+  }
+
+  /**
+   * Returns the blot for each additional selected target (the figure blot for a captioned image),
+   * skipping any that can no longer be found.
+   *
+   * @returns {Blot[]} The blots of the additional selected targets.
+   */
+  getBlots = (): Blot[] => {
+    return this.targets
+      .map(target => this.formatter.findBlot(target.element))
+      .filter((blot): blot is Blot => !!blot);
+  }
+
+  /**
+   * Checks whether the given element is one of the additional selected targets.
+   *
+   * @param element - The element to check.
+   * @returns `true` if the element is in the selection.
+   */
+  has = (element: HTMLElement): boolean => {
+    return this.targets.some(target => target.element === element);
+  }
+
+  /**
+   * Adds the element to the selection if not already selected, otherwise removes it.
+   *
+   * @param spec - The spec that handles the element.
+   * @param element - The target element to toggle.
+   */
+  toggle = (spec: BlotSpec, element: HTMLElement): void => {
+    if (this.has(element)) {
+      this.remove(element);
+    } else {
+      this.add(spec, element);
+    }
+  }
+
+  /**
+   * Adds an element to the selection, creating and positioning its outline overlay.
+   *
+   * @param spec - The spec that handles the element.
+   * @param element - The target element to add.
+   */
+  add = (spec: BlotSpec, element: HTMLElement): void => {
+    if (this.has(element)) return;
+    const overlay = this._createOverlay();
+    this.formatter.quill.container.appendChild(overlay);
+    this.targets.push({ spec, element, overlay });
+    this._positionOverlay(overlay, element);
+    if (this.debug) console.debug('MultiSelection added target:', element);
+  }
+
+  /**
+   * Removes an element from the selection along with its outline overlay.
+   *
+   * @param element - The target element to remove.
+   */
+  remove = (element: HTMLElement): void => {
+    const target = this.targets.find(target => target.element === element);
+    if (target) {
+      target.overlay.remove();
+      this.targets = this.targets.filter(t => t !== target);
+      if (this.debug) console.debug('MultiSelection removed target:', element);
+    }
+  }
+
+  /**
+   * Removes all additional targets and their overlays.
+   */
+  clear = (): void => {
+    this.targets.forEach(target => target.overlay.remove());
+    this.targets = [];
+  }
+
+  /**
+   * Repositions each outline overlay over its target.
+   * Targets no longer attached to the editor (e.g. deleted) are removed from the selection.
+   */
+  reposition = (): void => {
+    this.targets
+      .filter(target => !this.formatter.quill.root.contains(target.element))
+      .forEach(target => this.remove(target.element));
+    this.targets.forEach(target => this._positionOverlay(target.overlay, target.element));
+  }
+
+  /**
+   * Creates an outline overlay element styled from the `multiSelect` options.
+   *
+   * @returns {HTMLElement} The overlay element.
+   */
+  private _createOverlay = (): HTMLElement => {
+    const overlay = document.createElement('div');
+    overlay.classList.add(this.formatter.options.multiSelect.overlayClassName);
+    if (this.formatter.options.multiSelect.overlayStyle) {
+      Object.assign(overlay.style, this.formatter.options.multiSelect.overlayStyle);
+    }
+    overlay.style.userSelect = 'none';
+    return overlay;
+  }
+
+  /**
+   * Positions the overlay to cover the target element.
+   *
+   * @param overlay - The overlay element to position.
+   * @param element - The target element to cover.
+   */
+  private _positionOverlay = (overlay: HTMLElement, element: HTMLElement): void => {
+    Object.assign(overlay.style, {
+      display: 'block',
+      ...this.formatter._getOverlayRect(element)
+    });
+  }
+}
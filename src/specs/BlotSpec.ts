@@ -1,9 +1,17 @@
 import Action from '../actions/Action';
 import AlignAction from '../actions/align/AlignAction';
+import AttributeAction from '../actions/AttributeAction';
 import BlotFormatter from '../BlotFormatter';
+import CaptionAction from '../actions/CaptionAction';
 import CaretAction from '../actions/CaretAction';
+import CompressAction from '../actions/CompressAction';
 import DeleteAction from '../actions/DeleteAction';
+import LinkAction from '../actions/LinkAction';
+import MediaAction from '../actions/MediaAction';
+import ProviderAction from '../actions/ProviderAction';
 import ResizeAction from '../actions/ResizeAction';
+import type { ActionConfig, ActionName, EmbedSizing } from '../Options';
+import type { InspectInfo } from '../actions/Action';
 
 export interface Blot {
   domNode: HTMLElement;
@@ -16,6 +24,58 @@ export interface Blot {
   length(): number;
 }
 
+/**
+ * The built-in actions available by name in the `actions` option.
+ * `isEnabled` applies the matching `allow...` option (and eligibility for compression) so that
+ * disabling an action globally also removes it from any spec's configured list.
+ */
+const BUILT_IN_ACTIONS: Record<ActionName, {
+  action: new (formatter: BlotFormatter) => Action;
+  isEnabled: (spec: BlotSpec) => boolean;
+}> = {
+  align: {
+    action: AlignAction,
+    isEnabled: spec => spec.formatter.options.align.allowAligning
+  },
+  resize: {
+    action: ResizeAction,
+    isEnabled: spec => spec.formatter.options.resize.allowResizing && spec.sizing !== 'none'
+  },
+  delete: {
+    action: DeleteAction,
+    isEnabled: spec => spec.formatter.options.delete.allowKeyboardDelete
+  },
+  caret: {
+    action: CaretAction,
+    isEnabled: () => true
+  },
+  link: {
+    action: LinkAction,
+    isEnabled: spec => !!spec.formatter.options.image.linkOptions.allowLinkEdit
+  },
+  attribute: {
+    action: AttributeAction,
+    isEnabled: spec => !!spec.formatter.options.image.allowAltTitleEdit
+  },
+  compress: {
+    action: CompressAction,
+    isEnabled: spec => !!spec.formatter.options.image.allowCompressor &&
+      CompressAction.isEligibleForCompression(spec.getTargetElement())
+  },
+  caption: {
+    action: CaptionAction,
+    isEnabled: spec => !!spec.formatter.options.image.allowCaptions
+  },
+  media: {
+    action: MediaAction,
+    isEnabled: spec => !!spec.formatter.options.media.allowMediaToggles
+  },
+  provider: {
+    action: ProviderAction,
+    isEnabled: spec => !!spec.formatter.options.video.allowProviderActions
+  }
+};
+
 /**
  * Abstract base class representing a specification for a Quill blot.
  *
@@ -36,20 +96,32 @@ export interface Blot {
  *
  * @property formatter - The `BlotFormatter` instance associated with this spec.
  * @property isUnclickable - Indicates whether the blot is unclickable.
+ * @property sizing - How the resize action applies a new width to the target (see `EmbedSizing`).
+ *
+ * @property specName - The name used to configure the spec's actions via the `actions` option.
  *
  * @method init - Initializes the blot specification. Intended to be overridden.
- * @method getActions - Returns an array of enabled `Action` objects for the current formatter. Intended to be extended.
+ * @method destroy - Releases anything set up by `init`. Intended to be overridden.
+ * @method getActions - Returns the `Action` objects for the spec, from the `actions` option if configured.
+ * @method getDefaultActions - Returns the default enabled `Action` objects for the spec. Intended to be extended.
+ * @method createActions - Creates `Action` objects from an `actions` option list.
+ * @method canFormat - Returns true if the given element can be formatted by this spec. Intended to be overridden.
+ * @method setTarget - Sets the target HTML element for the blot without a click event. Intended to be overridden.
  * @method getTargetElement - Returns the target HTML element for the blot. Intended to be overridden.
  * @method getTargetBlot - Retrieves the target blot associated with the current selection.
  * @method getOverlayElement - Returns the overlay element associated with the blot.
+ * @method getInspectInfo - Returns read-only information about the target for the inspect panel. Intended to be overridden.
  * @method setSelection - Clears the current selection in the Quill editor.
  * @method onHide - Callback invoked when the blot is hidden. Intended to be overridden.
  */
 export default class BlotSpec {
   // abstract class for Blot specifications
 
+  // key used in the actions option - set on each subclass, constructor.name is not reliable once minified
+  static specName: string = 'BlotSpec';
   formatter: BlotFormatter;
   isUnclickable: boolean = false;
+  sizing: EmbedSizing = 'wrapper';
 
   constructor(formatter: BlotFormatter) {
     this.formatter = formatter;
@@ -64,25 +136,57 @@ export default class BlotSpec {
    */
   init = (): void => {}
 
+  /**
+   * Releases the observers, listeners and elements set up by `init`.
+   *
+   * Called by `BlotFormatter.destroy`. It can be overridden by subclasses that set anything up in `init`.
+   */
+  destroy = (): void => {}
+
+  /**
+   * The name used to look up this spec's entry in the `actions` option (the static `specName` of the class).
+   */
+  get specName(): string {
+    return (this.constructor as typeof BlotSpec).specName;
+  }
+
+  /**
+   * Returns the `Action` instances to create when the overlay is shown for this spec.
+   *
+   * If the `actions` option has an entry for this spec's `specName`, the actions are built from that
+   * list (see `createActions`). Otherwise the spec's default actions are used (see `getDefaultActions`).
+   *
+   * @returns {Array<Action>} An array of `Action` objects for the current formatter.
+   */
+  getActions(): Array<Action> {
+    const config: Array<ActionConfig> | undefined = this.formatter.options.actions?.[this.specName];
+    if (config) {
+      if (this.formatter.options.debug) console.debug(`${this.specName} actions from options:`, config);
+      return this.createActions(config);
+    }
+    return this.getDefaultActions();
+  }
+
   /**
    * Returns an array of `Action` instances based on the formatter's configuration options.
    * 
    * The returned actions may include:
    * - `AlignAction` if aligning is allowed (`options.align.allowAligning`)
-   * - `ResizeAction` if resizing is allowed (`options.resize.allowResizing`)
+   * - `ResizeAction` if resizing is allowed (`options.resize.allowResizing`) and the spec's `sizing` is not `none`
    * - `DeleteAction` if keyboard deletion is allowed (`options.delete.allowKeyboardDelete`)
    * - Always includes `CaretAction`
    *
    * It can be overridden by subclasses to provide additional actions specific to the blot type.
+   * Not used if the `actions` option has an entry for this spec.
    * 
    * @returns {Array<Action>} An array of enabled `Action` objects for the current formatter.
    */
-  getActions(): Array<Action> {
+  getDefaultActions(): Array<Action> {
     const actions: Array<Action> = [];
     if (this.formatter.options.align.allowAligning) {
       actions.push(new AlignAction(this.formatter));
     }
-    if (this.formatter.options.resize.allowResizing) {
+    if (this.formatter.options.resize.allowResizing && this.sizing !== 'none') {
       actions.push(new ResizeAction(this.formatter));
     }
     if (this.formatter.options.delete.allowKeyboardDelete) {
@@ -93,6 +197,64 @@ export default class BlotSpec {
     return actions;
   }
 
+  /**
+   * Creates `Action` instances from a list of built-in action names and/or custom `Action` classes,
+   * in the order given.
+   *
+   * - Built-in names are skipped if disabled by their `allow...` option (e.g. `resize` with
+   *   `resize.allowResizing: false`), `resize` is skipped for specs with `none` sizing, and `compress` is
+   *   skipped for images not eligible for compression.
+   * - Custom `Action` classes are always created.
+   * - `CaretAction` is appended if not listed, as it is required to deselect the blot from the keyboard.
+   *
+   * @param config - The list of action names and/or `Action` classes.
+   * @returns {Array<Action>} The created `Action` objects.
+   */
+  createActions(config: Array<ActionConfig>): Array<Action> {
+    const actions: Array<Action> = [];
+    config.forEach(entry => {
+      if (typeof entry === 'string') {
+        const builtIn = BUILT_IN_ACTIONS[entry];
+        if (!builtIn) {
+          console.warn(`${this.specName}: unknown action '${entry}' in actions option`);
+        } else if (builtIn.isEnabled(this)) {
+          actions.push(new builtIn.action(this.formatter));
+        }
+      } else {
+        actions.push(new entry(this.formatter));
+      }
+    });
+    if (!actions.some(action => action instanceof CaretAction)) {
+      actions.push(new CaretAction(this.formatter));
+    }
+    return actions;
+  }
+
+  /**
+   * Determines whether the given element is a target this spec can format.
+   *
+   * This method is intended to be overridden by subclasses to match the element type handled by the spec.
+   * It is used to identify the spec responsible for an element when it is not selected by the spec's
+   * own click handler (e.g. when adding to a multi-selection).
+   *
+   * @param element - The element to test.
+   * @returns {boolean} `true` if this spec can format the element.
+   */
+  canFormat = (element: HTMLElement): boolean => {
+    return false;
+  }
+
+  /**
+   * Sets the element this spec should format, without the need for a click event.
+   * Used when a blot is selected via the keyboard or programmatically.
+   *
+   * This method is intended to be overridden by subclasses to store the target in the spec's own property.
+   * Only elements for which `canFormat()` returns `true` should be passed.
+   *
+   * @param element - The element to set as the target.
+   */
+  setTarget = (element: HTMLElement): void => {}
+
   /**
    * Returns the target HTML element associated with this blot.
    * 
@@ -138,6 +300,19 @@ export default class BlotSpec {
     return this.getTargetElement();
   }
 
+  /**
+   * Returns read-only information about the target element for the inspect panel that is not provided
+   * by the spec's actions (see `Action.getInspectInfo()`).
+   * Rows returned here are shown after the action rows.
+   *
+   * This method is intended to be overridden by subclasses to describe properties of the blot type.
+   *
+   * @returns {InspectInfo[]} The rows to display, empty by default.
+   */
+  getInspectInfo = (): InspectInfo[] => {
+    return [];
+  }
+
   /**
    * Clears the current selection in the Quill editor by setting it to `null`.
    * This effectively removes any active text selection.
@@ -0,0 +1,129 @@
+import Action from '../actions/Action';
+import BlotFormatter from '../BlotFormatter';
+import UnclickableBlotSpec from './UnclickableBlotSpec';
+import type { Blot } from './BlotSpec';
+import type { EmbedSpecOptions } from '../Options';
+
+/**
+ * A spec for custom embed blots (charts, formula blocks, cards etc.) configured by options rather than subclassing.
+ *
+ * One `GenericEmbedSpec` is created by `BlotFormatter` for each entry in the `embeds` option. Each entry sets:
+ * - `name`: the spec name, used as the key in the `actions` option.
+ * - `selector` and/or `blotName`: the elements handled. If no selector is given, it is built from the tag and
+ *   class name of the registered blot.
+ * - `interaction`: `clickable` embeds are selected by clicking them (as for images), `proxy` embeds are covered
+ *   by a transparent proxy image (as for iframes), for embeds that capture pointer events.
+ * - `actions`: the actions created for the embed, the default actions if not set.
+ * - `sizing`: how the resize action applies a new width (see `EmbedSizing`).
+ *
+ * @remarks
+ * - Extends `UnclickableBlotSpec` for the proxy image handling, which is only set up with `proxy` interaction.
+ * - Alignment uses the iframe align format, so is only supported for block embeds.
+ * - To keep a new size in the delta, the blot must store the `width` (and `height`) attribute as formats.
+ *
+ * @example
+ * ```typescript
+ * blotFormatter2: {
+ *   embeds: [
+ *     { name: 'ChartSpec', blotName: 'chart', interaction: 'clickable', sizing: 'width' },
+ *     { name: 'FormulaSpec', selector: 'div.ql-formula-block', interaction: 'clickable', actions: ['align', 'delete'] }
+ *   ]
+ * }
+ * ```
+ *
+ * @extends UnclickableBlotSpec
+ */
+export default class GenericEmbedSpec extends UnclickableBlotSpec {
+  static specName: string = 'GenericEmbedSpec';
+  config: EmbedSpecOptions;
+
+  constructor(formatter: BlotFormatter, config: EmbedSpecOptions) {
+    super(formatter);
+    this.config = config;
+    this.isUnclickable = config.interaction === 'proxy';
+    this.sizing = config.sizing ?? (this.isUnclickable ? 'aspect-ratio' : 'width');
+    this.selector = config.selector || this._getBlotSelector();
+  }
+
+  /**
+   * The configured embed name, used to look up this spec's entry in the `actions` option.
+   */
+  get specName(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Initializes the spec: creates proxy images for `proxy` embeds, or listens for clicks on the editor for
+   * `clickable` embeds. Nothing is set up if the spec has no selector.
+   */
+  init = (): void => {
+    if (!this.selector) {
+      console.warn(`GenericEmbedSpec '${this.config.name}': no selector set and blot '${this.config.blotName}' not found`);
+      return;
+    }
+    if (this.isUnclickable) {
+      this.initProxies();
+    } else {
+      this.formatter.quill.root.addEventListener('click', this._onClick);
+    }
+  }
+
+  /**
+   * Returns the actions configured for the embed (`actions` in the embed options), or the default actions
+   * (align, resize and delete as enabled by options, and caret) if not configured.
+   * Not used if the `actions` option has an entry for the embed name.
+   *
+   * @returns {Array<Action>} The actions for the embed.
+   */
+  getDefaultActions(): Array<Action> {
+    return this.config.actions
+      ? this.createActions(this.config.actions)
+      : super.getDefaultActions();
+  }
+
+  /**
+   * Returns the blot for the target element. With `blotName` set, the closest blot of that name
+   * containing the target is returned, so the selector may match an element inside the blot.
+   *
+   * @returns {Blot | null} The blot, or `null` if there is no target or it cannot be found.
+   */
+  getTargetBlot = (): Blot | null => {
+    const target = this.getTargetElement();
+    if (!target) return null;
+    let blot = this.formatter.Quill.find(target, !!this.config.blotName) as Blot | null;
+    if (this.config.blotName) {
+      while (blot && blot.statics?.blotName !== this.config.blotName) {
+        blot = blot.parent;
+      }
+    }
+    return blot;
+  }
+
+  /**
+   * Builds the selector from the tag and class name of the blot registered as `blotName`.
+   *
+   * @returns {string} The selector, or an empty string if the blot is not registered.
+   */
+  private _getBlotSelector = (): string => {
+    if (!this.config.blotName) return '';
+    const BlotClass = this.formatter.Quill.import(`formats/${this.config.blotName}`) as any;
+    if (!BlotClass?.tagName) return '';
+    const tagName = Array.isArray(BlotClass.tagName) ? BlotClass.tagName[0] : BlotClass.tagName;
+    return `${tagName.toLowerCase()}${BlotClass.className ? `.${BlotClass.className}` : ''}`;
+  }
+
+  /**
+   * Handles clicks on `clickable` embeds, selecting the closest element in the editor matching the selector.
+   * While the editor is disabled, the embed is shown in the inspect panel instead if `inspect.allowInspect` is set.
+   *
+   * @param event - The mouse event triggered by the click.
+   */
+  private _onClick = (event: MouseEvent): void => {
+    if (!(this.formatter.enabled || this.formatter.inspector) || !(event.target instanceof Element)) return;
+    const embed = event.target.closest<HTMLElement>(this.selector);
+    if (embed && this.formatter.quill.root.contains(embed)) {
+      this.unclickable = embed;
+      this.formatter.show(this);
+    }
+  }
+}
@@ -1,5 +1,10 @@
+import Action from '../actions/Action';
+import type { InspectInfo } from '../actions/Action';
 import BlotFormatter from '../BlotFormatter';
+import ProviderAction from '../actions/ProviderAction';
 import UnclickableBlotSpec from './UnclickableBlotSpec';
+import { findIframeProvider } from '../providers/IframeProviders';
+import type { IframeProvider } from '../Options';
 
 /**
  * Represents a specification for handling iframe-based video blots within the Quill editor.
@@ -9,11 +14,52 @@ import UnclickableBlotSpec from './UnclickableBlotSpec';
  * @remarks
  * This class is intended to be used with the BlotFormatter to manage video embeds
  * that use iframes, such as YouTube or Vimeo videos.
+ * The iframe provider is recognised from the iframe `src` (see `video.providers`). Providers set the
+ * aspect ratio and width limits used when resizing, and `ProviderAction` is added to the default actions
+ * when `video.allowProviderActions` is set.
  *
  * @param formatter - The {@link BlotFormatter} instance used to apply formatting logic.
  */
 export default class IframeVideoSpec extends UnclickableBlotSpec {
+  static specName: string = 'IframeVideoSpec';
+
   constructor(formatter: BlotFormatter) {
     super(formatter);
   }
+
+  /**
+   * Returns the default actions for the iframe spec, adding `ProviderAction` if provider actions are allowed
+   * (`video.allowProviderActions`).
+   * Not used if the `actions` option has an entry for this spec.
+   *
+   * @returns {Array<Action>} The list of actions applicable to the iframe.
+   */
+  getDefaultActions = (): Array<Action> => {
+    const actions = super.getDefaultActions();
+    if (this.formatter.options.video.allowProviderActions) {
+      actions.push(new ProviderAction(this.formatter));
+    }
+    return actions;
+  }
+
+  /**
+   * Returns the provider of the target iframe.
+   *
+   * @returns {IframeProvider | null} The first provider in `video.providers` matching the iframe `src`, or `null`.
+   */
+  getProvider = (): IframeProvider | null => {
+    return findIframeProvider(this.formatter.options.video.providers, this.getTargetElement());
+  }
+
+  /**
+   * Returns the provider of the iframe for the inspect panel.
+   *
+   * @returns {InspectInfo[]} The provider row, or no rows if the provider is not recognised.
+   */
+  getInspectInfo = (): InspectInfo[] => {
+    const provider = this.getProvider();
+    return provider
+      ? [{ label: this.formatter.options.inspect.labels.provider, value: provider.name }]
+      : [];
+  }
 }
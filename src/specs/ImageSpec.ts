@@ -1,7 +1,10 @@
 import Action from '../actions/Action';
+import type { InspectInfo } from '../actions/Action';
+import type { Blot } from './BlotSpec';
 import AttributeAction from '../actions/AttributeAction';
 import BlotFormatter from '../BlotFormatter';
 import BlotSpec from './BlotSpec';
+import CaptionAction from '../actions/CaptionAction';
 import CompressAction from '../actions/CompressAction';
 import LinkAction from '../actions/LinkAction';
 
@@ -20,6 +23,7 @@ import LinkAction from '../actions/LinkAction';
  * @extends BlotSpec
  */
 export default class ImageSpec extends BlotSpec {
+  static specName: string = 'ImageSpec';
   img: HTMLElement | null;
 
   constructor(formatter: BlotFormatter) {
@@ -37,16 +41,18 @@ export default class ImageSpec extends BlotSpec {
 
   /**
    * Returns an array of available actions for the image spec, based on the current formatter options and image eligibility.
+   * Not used if the `actions` option has an `ImageSpec` entry.
    *
    * The returned actions may include:
    * - `LinkAction`: If link editing is allowed (`image.linkOptions.allowLinkEdit`).
    * - `AttributeAction`: If alt/title editing is allowed (`image.allowAltTitleEdit`).
    * - `CompressAction`: If compression is allowed (`image.allowCompressor`) and the image is eligible for compression.
+   * - `CaptionAction`: If captions are allowed (`image.allowCaptions`).
    *
    * @returns {Array<Action>} The list of actions applicable to the current image spec.
    */
-  getActions = (): Array<Action> => {
-    const actions = super.getActions();
+  getDefaultActions = (): Array<Action> => {
+    const actions = super.getDefaultActions();
     if (this.formatter.options.image.linkOptions.allowLinkEdit) {
       actions.push(new LinkAction(this.formatter));
     }
@@ -56,9 +62,31 @@ export default class ImageSpec extends BlotSpec {
     if (this.formatter.options.image.allowCompressor && CompressAction.isEligibleForCompression(this.img)) {
       actions.push(new CompressAction(this.formatter));
     }
+    if (this.formatter.options.image.allowCaptions) {
+      actions.push(new CaptionAction(this.formatter));
+    }
     return actions;
   }
 
+  /**
+   * Determines whether the given element is an image this spec can format.
+   *
+   * @param element - The element to test.
+   * @returns {boolean} `true` if the element is an `<img>` element inside the editor.
+   */
+  canFormat = (element: HTMLElement): boolean => {
+    return element instanceof HTMLImageElement && this.formatter.quill.root.contains(element);
+  }
+
+  /**
+   * Sets the image element to format, without the need for a click event.
+   *
+   * @param element - The image element to set as the target.
+   */
+  setTarget = (element: HTMLElement): void => {
+    this.img = element;
+  }
+
   /**
    * Returns the target HTML element associated with this instance.
    *
@@ -68,6 +96,45 @@ export default class ImageSpec extends BlotSpec {
     return this.img;
   }
 
+  /**
+   * Returns the blot for the target image: the figure blot if the image has a caption, otherwise the image blot.
+   *
+   * @returns {Blot | null} The blot, or `null` if there is no target or it cannot be found.
+   */
+  getTargetBlot = (): Blot | null => {
+    if (!this.img) return null;
+    const figure = this.img.closest('figure.ql-figure');
+    const target = figure && this.formatter.quill.root.contains(figure) ? figure : this.img;
+    return this.formatter.Quill.find(target) as Blot | null;
+  }
+
+  /**
+   * Returns the natural size and file size of the image for the inspect panel.
+   *
+   * The file size is calculated from the data URL for embedded images. For linked images it is taken
+   * from the browser's resource timing entry, which is only available for same-origin images or servers
+   * sending a `Timing-Allow-Origin` header - otherwise the row is omitted.
+   *
+   * @returns {InspectInfo[]} The natural size and file size rows.
+   */
+  getInspectInfo = (): InspectInfo[] => {
+    if (!(this.img instanceof HTMLImageElement)) return [];
+    const labels = this.formatter.options.inspect.labels;
+    const info: InspectInfo[] = [];
+    if (this.img.naturalWidth) {
+      info.push({ label: labels.naturalSize, value: `${this.img.naturalWidth} x ${this.img.naturalHeight}px` });
+    }
+    let bytes = CompressAction.getImageSize(this.img);
+    if (bytes === null && this.img.currentSrc) {
+      const entry = performance.getEntriesByName(this.img.currentSrc)[0] as PerformanceResourceTiming | undefined;
+      bytes = entry?.encodedBodySize || null;
+    }
+    if (bytes !== null) {
+      info.push({ label: labels.fileSize, value: `${Math.ceil(bytes / 1024)}kB` });
+    }
+    return info;
+  }
+
   /**
    * Handles the hide event by resetting the image reference to null.
    * This is typically called when the overlay should no longer be displayed or interacted with.
@@ -81,12 +148,13 @@ export default class ImageSpec extends BlotSpec {
    * 
    * If the clicked element is an HTMLImageElement, prevents the default behaviour
    * (such as opening links), stores a reference to the image, and displays the formatter UI.
+   * While the editor is disabled, the image is shown in the inspect panel instead if `inspect.allowInspect` is set.
    * 
    * @param event - The mouse event triggered by the click.
    */
   onClick = (event: MouseEvent): void => {
     const el = event.target;
-    if (this.formatter.enabled && el instanceof HTMLImageElement) {
+    if ((this.formatter.enabled || this.formatter.inspector) && el instanceof HTMLImageElement) {
       // prevent <a> links from opening
       event.stopImmediatePropagation();
       event.preventDefault();
@@ -0,0 +1,22 @@
+import BlotFormatter from '../BlotFormatter';
+import NativeMediaSpec from './NativeMediaSpec';
+
+/**
+ * Represents a specification for handling native `<audio>` blots (see `createNativeAudioBlotClass`)
+ * within the Quill editor.
+ * Extends {@link NativeMediaSpec} so that the audio player is selected by clicking it directly, without a proxy image.
+ *
+ * @remarks
+ * The elements handled are set by the `media.audioSelector` option. Audio elements are only displayed
+ * (and so can only be selected) when they have the `controls` attribute.
+ *
+ * @param formatter - The {@link BlotFormatter} instance used to apply formatting logic.
+ */
+export default class NativeAudioSpec extends NativeMediaSpec {
+  static specName: string = 'NativeAudioSpec';
+
+  constructor(formatter: BlotFormatter) {
+    super(formatter);
+    this.selector = formatter.options.media.audioSelector;
+  }
+}
@@ -0,0 +1,117 @@
+import Action from '../actions/Action';
+import type { InspectInfo } from '../actions/Action';
+import BlotFormatter from '../BlotFormatter';
+import BlotSpec from './BlotSpec';
+import type { EmbedSizing } from '../Options';
+import MediaAction from '../actions/MediaAction';
+
+/**
+ * Base specification for native (HTML5) media elements such as `<video>` and `<audio>`.
+ *
+ * Native media elements receive pointer events in the editor, so unlike iframes (see `UnclickableBlotSpec`)
+ * no proxy image is needed: the element is selected from a click on the element itself, as for images.
+ *
+ * @remarks
+ * - Subclasses set the `selector` matching the elements they handle.
+ * - Clicking the element's native controls also selects it. The overlay then covers the element until it is
+ *   dismissed, in the same way as for iframe videos.
+ * - Adds `MediaAction` to the default actions when `media.allowMediaToggles` is set.
+ *
+ * @extends BlotSpec
+ */
+export default class NativeMediaSpec extends BlotSpec {
+  static specName: string = 'NativeMediaSpec';
+  selector: string = 'video, audio';
+  media: HTMLElement | null = null;
+  sizing: EmbedSizing = 'width';
+
+  constructor(formatter: BlotFormatter) {
+    super(formatter);
+  }
+
+  /**
+   * Initializes the spec by attaching a click event listener to the Quill editor's root element.
+   */
+  init = (): void => {
+    this.formatter.quill.root.addEventListener('click', this.onClick);
+  }
+
+  /**
+   * Returns the default actions for the media spec, adding `MediaAction` if media toggles are allowed
+   * (`media.allowMediaToggles`).
+   * Not used if the `actions` option has an entry for this spec.
+   *
+   * @returns {Array<Action>} The list of actions applicable to the media element.
+   */
+  getDefaultActions = (): Array<Action> => {
+    const actions = super.getDefaultActions();
+    if (this.formatter.options.media.allowMediaToggles) {
+      actions.push(new MediaAction(this.formatter));
+    }
+    return actions;
+  }
+
+  /**
+   * Determines whether the given element is a media element this spec can format.
+   *
+   * @param element - The element to test.
+   * @returns {boolean} `true` if the element matches the spec's selector and is inside the editor.
+   */
+  canFormat = (element: HTMLElement): boolean => {
+    return element.matches(this.selector) && this.formatter.quill.root.contains(element);
+  }
+
+  /**
+   * Sets the media element to format, without the need for a click event.
+   *
+   * @param element - The media element to set as the target.
+   */
+  setTarget = (element: HTMLElement): void => {
+    this.media = element;
+  }
+
+  /**
+   * Returns the target HTML element associated with this instance.
+   *
+   * @returns {HTMLElement | null} The media element if available, otherwise `null`.
+   */
+  getTargetElement = (): HTMLElement | null => {
+    return this.media;
+  }
+
+  /**
+   * Returns the duration of the media for the inspect panel, once its metadata has loaded.
+   *
+   * @returns {InspectInfo[]} The duration row, or no rows if the duration is unknown.
+   */
+  getInspectInfo = (): InspectInfo[] => {
+    if (!(this.media instanceof HTMLMediaElement) || !isFinite(this.media.duration)) return [];
+    const seconds = Math.round(this.media.duration);
+    const duration = `${Math.floor(seconds / 60)}:${`${seconds % 60}`.padStart(2, '0')}`;
+    return [{ label: this.formatter.options.inspect.labels.duration, value: duration }];
+  }
+
+  /**
+   * Handles the hide event by resetting the media reference to null.
+   */
+  onHide = (): void => {
+    this.media = null;
+  }
+
+  /**
+   * Handles click events on media elements.
+   *
+   * If the clicked element is handled by this spec, stores a reference to it and displays the formatter UI.
+   * The default action is not prevented so that the native controls still respond to the click.
+   * While the editor is disabled, the element is shown in the inspect panel instead if `inspect.allowInspect` is set.
+   *
+   * @param event - The mouse event triggered by the click.
+   */
+  onClick = (event: MouseEvent): void => {
+    const el = event.target;
+    if ((this.formatter.enabled || this.formatter.inspector) && el instanceof HTMLElement && this.canFormat(el)) {
+      this.media = el;
+      this.formatter.show(this);
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import BlotFormatter from '../BlotFormatter';
+import NativeMediaSpec from './NativeMediaSpec';
+
+/**
+ * Represents a specification for handling native `<video>` blots (see `createNativeVideoBlotClass`)
+ * within the Quill editor.
+ * Extends {@link NativeMediaSpec} so that the video is selected by clicking it directly, without a proxy image.
+ *
+ * @remarks
+ * The elements handled are set by the `media.videoSelector` option.
+ *
+ * @param formatter - The {@link BlotFormatter} instance used to apply formatting logic.
+ */
+export default class NativeVideoSpec extends NativeMediaSpec {
+  static specName: string = 'NativeVideoSpec';
+
+  constructor(formatter: BlotFormatter) {
+    super(formatter);
+    this.selector = formatter.options.media.videoSelector;
+  }
+}
@@ -1,5 +1,6 @@
 import BlotFormatter from '../BlotFormatter';
 import BlotSpec from './BlotSpec';
+import type { EmbedSizing } from '../Options';
 
 const PROXY_IMAGE_CLASS = 'blot-formatter__proxy-image';
 
@@ -9,6 +10,14 @@ type UnclickableProxy = {
 };
 type UnclickableProxies = Record<string, UnclickableProxy>;
 
+// Quill delta operation, as passed with the text-change event
+type DeltaOperation = {
+  insert?: string | Record<string, unknown>;
+  delete?: number;
+  retain?: number | Record<string, unknown>;
+  attributes?: Record<string, unknown>;
+};
+
 /**
  * Represents a Quill BlotSpec for managing "unclickable" elements within the editor.
  * 
@@ -19,74 +28,107 @@ type UnclickableProxies = Record<string, UnclickableProxy>;
  * 
  * Key Features:
  * - Automatically creates and removes proxy overlays for unclickable elements.
- * - Repositions proxies on editor scroll and resize events.
+ * - Tracks unclickables incrementally from the `text-change` delta: only inserted embeds are searched for new
+ *   unclickables, and tracked unclickables are only checked for removal when content is deleted.
+ * - Creates proxies lazily: each unclickable is watched with an `IntersectionObserver` and its proxy is created
+ *   when it first comes into view. Proxies of unclickables out of view are hidden and not repositioned.
+ * - Repositions visible proxies when the editor or any of its ancestors scrolls or changes size.
  * - Handles click events on proxies to trigger formatter overlays.
  * - Passes through wheel and touch events for smooth scrolling.
  * 
  * @remarks
- * - Proxies are managed using a randomly generated ID stored in the element's dataset.
- * - The proxy container is appended to the Quill editor's container and holds all proxy images.
+ * - Proxies are managed using a randomly generated ID stored in the element's dataset. A new ID is assigned when a
+ *   proxy is created, so an ID copied with pasted html is not mistaken for a tracked unclickable.
+ * - The proxy container is created by `init()` and appended to the Quill editor's container to hold all proxy images.
+ *   Constructing the spec does not touch the DOM.
  * - Designed to work with Quill's BlotFormatter extension for custom video or media formatting.
  * 
  * @extends BlotSpec
  */
 export default class UnclickableBlotSpec extends BlotSpec {
+  static specName: string = 'UnclickableBlotSpec';
   selector: string;
   unclickable: HTMLElement | null;
-  proxyContainer: HTMLElement;
+  proxyContainer: HTMLElement | null = null;
   unclickableProxies: UnclickableProxies;
   isUnclickable: boolean = true;
+  sizing: EmbedSizing = 'aspect-ratio';
+  private _proxyImageSrc: string | null = null;
+  // unclickables in the editor watched by the intersection observer
+  private _tracked: Set<HTMLElement> = new Set();
+  // ids of proxies whose unclickable is in view
+  private _visibleProxies: Set<string> = new Set();
+  private _intersectionObserver: IntersectionObserver | null = null;
+  private _unsubscribeLayout: (() => void) | null = null;
 
   constructor(formatter: BlotFormatter) {
     super(formatter);
     this.selector = formatter.options.video.selector;
     this.unclickable = null;
-    this.proxyContainer = this._createProxyContainer();
     this.unclickableProxies = {};
   }
 
+  /**
+   * Initializes the spec by setting up the unclickable blot proxies (see `initProxies`).
+   */
+  init = (): void => {
+    this.initProxies();
+  }
+
   /**
    * Initializes event listeners and observers for unclickable blot proxies.
+   * - Creates the proxy container in the Quill editor container.
+   * - Creates the intersection observer that creates, shows and hides proxies as unclickables come into
+   *   and go out of view, and starts tracking the unclickables already in the editor.
    * - Sets up a listener for Quill's 'text-change' event to handle updates.
-   * - Adds a scroll event listener to the Quill root to reposition proxy images when scrolling occurs.
-   * - Observes editor resize events to maintain correct proxy positioning.
+   * - Subscribes to the formatter's layout tracker to reposition proxy images when the editor or any
+   *   ancestor scrolls or changes size.
    */
-  init = (): void => {
-    // create unclickable proxies, position proxies over unclickables
+  initProxies = (): void => {
+    this.proxyContainer = this._createProxyContainer();
+    this._intersectionObserver = new IntersectionObserver(this._onIntersection);
+    this._trackUnclickables(this.formatter.quill.root);
+    // track inserted and removed unclickables, position visible proxies over unclickables
     this.formatter.quill.on('text-change', this._onTextChange);
-    // reposition proxy image if quill root scrolls (only if target is child of quill root)
-    this.formatter.quill.root.addEventListener('scroll', () => {
-      this._repositionProxyImages();
-    });
-    this._observeEditorResize();
+    // reposition proxy images on scroll and layout changes (batched per animation frame)
+    this._unsubscribeLayout = this.formatter.layoutTracker.subscribe(this._repositionProxyImages);
+  }
+
+  /**
+   * Tears down the proxies set up by `initProxies`: disconnects the intersection observer, removes the
+   * 'text-change' and layout listeners, stops tracking unclickables and removes the proxy container.
+   */
+  destroy = (): void => {
+    this._intersectionObserver?.disconnect();
+    this._intersectionObserver = null;
+    this.formatter.quill?.off('text-change', this._onTextChange);
+    this._unsubscribeLayout?.();
+    this._unsubscribeLayout = null;
+    this._tracked.clear();
+    this._visibleProxies.clear();
+    this.unclickableProxies = {};
+    this.unclickable = null;
+    this.proxyContainer?.remove();
+    this.proxyContainer = null;
   }
 
   /**
-   * Observes the Quill editor's root element for resize events and triggers repositioning
-   * of proxy images when the editor's dimensions change (e.g., due to screen resize or editor grow/shrink).
-   * Uses a debounced approach to avoid excessive repositioning by waiting 200ms after the last resize event.
+   * Determines whether the given element is an unclickable this spec can format.
    *
-   * @remarks
-   * This method sets up a `ResizeObserver` on the editor's root element and calls
-   * `_repositionProxyImages` whenever a resize is detected, with debouncing to improve performance.
+   * @param element - The element to test.
+   * @returns {boolean} `true` if the element matches the spec's selector and is inside the editor.
    */
-  private _observeEditorResize = (): void => {
-    // reposition proxies if editor dimensions change (e.g. screen resize or editor grow/shrink)
-    let resizeTimeout: number | null = null;
-    const resizeObserver = new ResizeObserver((entries) => {
-      for (const entry of entries) {
-        // Clear the previous timeout if there was one
-        if (resizeTimeout) {
-          clearTimeout(resizeTimeout);
-        }
-        // Set a new timeout to run after 200ms
-        resizeTimeout = window.setTimeout(() => {
-          this._repositionProxyImages();
-        }, 200);
-      }
-    });
-    // Start observing the element for size changes
-    resizeObserver.observe(this.formatter.quill.root);
+  canFormat = (element: HTMLElement): boolean => {
+    return element.matches(this.selector) && this.formatter.quill.root.contains(element);
+  }
+
+  /**
+   * Sets the unclickable element to format, without the need for a proxy image click.
+   *
+   * @param element - The unclickable element to set as the target.
+   */
+  setTarget = (element: HTMLElement): void => {
+    this.unclickable = element;
   }
 
   /**
@@ -108,34 +150,133 @@ export default class UnclickableBlotSpec extends BlotSpec {
   }
 
   /**
-   * Handles changes to the text content within the Quill editor.
+   * Handles changes to the text content within the Quill editor, using the change delta to limit the work
+   * done for each change.
    *
    * This method performs the following actions:
-   * 1. Checks if any "unclickable" elements tracked by proxies have been deleted from the editor.
-   *    If so, it removes their corresponding proxy images and cleans up the tracking object.
-   * 2. Searches for new "unclickable" elements that do not yet have a proxy image and creates proxies for them.
-   * 3. Repositions all proxy images to ensure they are correctly aligned with their associated elements.
+   * 1. If the delta deletes content, checks whether any tracked "unclickable" elements have been removed from
+   *    the editor. If so, it stops tracking them and removes their proxy images.
+   * 2. Searches the embeds inserted by the delta for new "unclickable" elements and starts tracking them.
+   *    Their proxies are created when they come into view (see `_onIntersection`).
+   * 3. Repositions the visible proxy images, as the change may have moved their elements.
    *
-   * This method is intended to be called whenever the editor's content changes to keep proxy images in sync.
+   * Text inserts, such as typing, only reposition the visible proxies.
+   * Events emitted without a change delta (e.g. by `BlotFormatter.hide`) rescan the whole editor.
+   *
+   * @param delta - The change delta passed with the `text-change` event.
    */
-  private _onTextChange = (): void => {
-    // check if any unclickable has been deleted, remove proxy if so
-    Object.entries(this.unclickableProxies).forEach(([key, { unclickable, proxyImage }]) => {
-      try {
-        if (!this.formatter.quill.root.contains(unclickable)) {
-          proxyImage.remove();
-          delete this.unclickableProxies[key];
-        }
-      } catch { }
+  private _onTextChange = (delta: { ops?: DeltaOperation[] } | null | undefined): void => {
+    if (!Array.isArray(delta?.ops)) {
+      this._trackUnclickables(this.formatter.quill.root);
+      this._untrackRemovedUnclickables();
+      this._repositionProxyImages();
+      return;
+    }
+    let index = 0;
+    let hasDeletes = false;
+    delta.ops.forEach(op => {
+      if (op.delete) {
+        hasDeletes = true;
+      } else if (typeof op.retain === 'number') {
+        index += op.retain;
+      } else if (op.retain) {
+        // embed formatted by a retain op, may have been replaced
+        hasDeletes = true;
+        this._trackUnclickablesAt(index);
+        index += 1;
+      } else if (typeof op.insert === 'string') {
+        index += op.insert.length;
+      } else if (op.insert) {
+        this._trackUnclickablesAt(index);
+        index += 1;
+      }
     });
-    // add proxy for any new unclickables
-    this.formatter.quill.root.querySelectorAll(`${this.selector}:not([data-blot-formatter-id])`)
-      .forEach((unclickable: HTMLElement) => {
-        this._createUnclickableProxyImage(unclickable);
-      });
+    if (hasDeletes) {
+      this._untrackRemovedUnclickables();
+    }
     this._repositionProxyImages();
   };
 
+  /**
+   * Starts tracking any unclickables in the embed inserted at the given document index.
+   * The blot's element is searched, as the unclickable may be the element itself or inside it.
+   * `getLeaf` returns the leaf ending at an index, so the embed starting at the index is found at `index + 1`.
+   *
+   * @param index - The document index of the inserted embed.
+   */
+  private _trackUnclickablesAt = (index: number): void => {
+    const [leaf] = this.formatter.quill.getLeaf(index + 1);
+    if (leaf?.domNode instanceof HTMLElement) {
+      this._trackUnclickables(leaf.domNode);
+    }
+  }
+
+  /**
+   * Starts tracking the unclickables at or inside the given element with the intersection observer.
+   * Unclickables already tracked are skipped.
+   *
+   * @param element - The element to search.
+   */
+  private _trackUnclickables = (element: HTMLElement): void => {
+    const unclickables: HTMLElement[] = element.matches(this.selector)
+      ? [element]
+      : Array.from(element.querySelectorAll<HTMLElement>(this.selector));
+    unclickables.forEach(unclickable => {
+      if (!this._tracked.has(unclickable) && this.formatter.quill.root.contains(unclickable)) {
+        this._tracked.add(unclickable);
+        this._intersectionObserver?.observe(unclickable);
+      }
+    });
+  }
+
+  /**
+   * Stops tracking any unclickables no longer in the editor and removes their proxy images.
+   */
+  private _untrackRemovedUnclickables = (): void => {
+    this._tracked.forEach(unclickable => {
+      if (!this.formatter.quill.root.contains(unclickable)) {
+        this._tracked.delete(unclickable);
+        this._intersectionObserver?.unobserve(unclickable);
+      }
+    });
+    Object.entries(this.unclickableProxies).forEach(([key, { unclickable, proxyImage }]) => {
+      if (!this._tracked.has(unclickable)) {
+        proxyImage.remove();
+        delete this.unclickableProxies[key];
+        this._visibleProxies.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Handles unclickables coming into or going out of view.
+   * A proxy is created the first time an unclickable comes into view, then shown and positioned.
+   * The proxy of an unclickable going out of view is hidden so that it is no longer repositioned and
+   * cannot cover other content from a stale position.
+   *
+   * @param entries - The intersection observer entries.
+   */
+  private _onIntersection = (entries: IntersectionObserverEntry[]): void => {
+    entries.forEach(entry => {
+      const unclickable = entry.target as HTMLElement;
+      if (!this._tracked.has(unclickable)) return;
+      let id = unclickable.dataset.blotFormatterId;
+      if (!id || this.unclickableProxies[id]?.unclickable !== unclickable) {
+        if (!entry.isIntersecting) return;
+        id = this._createUnclickableProxyImage(unclickable);
+      }
+      const { proxyImage } = this.unclickableProxies[id];
+      if (entry.isIntersecting) {
+        this._visibleProxies.add(id);
+        proxyImage.style.display = '';
+        Object.assign(proxyImage.style, this.formatter._getOverlayRect(unclickable));
+      } else {
+        this._visibleProxies.delete(id);
+        proxyImage.style.display = 'none';
+      }
+    });
+  }
+
   /**
    * Creates a transparent proxy image overlay for an unclickable HTML element.
    * The proxy image is linked to the unclickable element via a randomly generated ID,
@@ -145,22 +286,16 @@ export default class UnclickableBlotSpec extends BlotSpec {
    * allowing interaction to be managed or passed through as needed.
    *
    * @param unclickable - The target HTMLElement to overlay with a transparent proxy image.
+   * @returns {string} The ID linking the proxy image to the unclickable.
    */
-  private _createUnclickableProxyImage = (unclickable: HTMLElement): void => {
+  private _createUnclickableProxyImage = (unclickable: HTMLElement): string => {
     const id = Array.from(crypto.getRandomValues(new Uint8Array(5)), (n) =>
       String.fromCharCode(97 + (n % 26))
     ).join('');
     unclickable.dataset.blotFormatterId = id;
 
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    if (context) {
-      context.globalAlpha = 0;
-      context.fillRect(0, 0, 1, 1);
-    }
-
     const proxyImage = document.createElement('img');
-    proxyImage.src = canvas.toDataURL('image/png');
+    proxyImage.src = this._getProxyImageSrc();
     proxyImage.classList.add(PROXY_IMAGE_CLASS);
     proxyImage.dataset.blotFormatterId = id;
 
@@ -183,7 +318,7 @@ export default class UnclickableBlotSpec extends BlotSpec {
       proxyImage.style.setProperty('border', '3px solid red');
     }
 
-    this.proxyContainer.appendChild(proxyImage);
+    this.proxyContainer?.appendChild(proxyImage);
 
     // on click, hide proxy, show overlay
     proxyImage.addEventListener('click', this._onProxyImageClick);
@@ -206,49 +341,59 @@ export default class UnclickableBlotSpec extends BlotSpec {
     if (this.formatter.options.debug) {
       console.debug('UnclickableBlotSpec created proxy for unclickable:', unclickable, 'with ID:', id, 'and proxy image:', proxyImage);
     }
+    return id;
   }
 
   /**
-   * Repositions proxy images to overlay their corresponding "unclickable" elements
-   * within the Quill editor container. Calculates each unclickable element's position
-   * relative to the container, accounting for scroll offsets, and updates the proxy image's
-   * style properties (`left`, `top`, `width`, `height`) accordingly.
+   * Returns the source of the transparent image used for proxies.
+   * The 1x1 transparent png is drawn on a canvas the first time a proxy is created and reused after that.
+   *
+   * @returns {string} The png data url.
+   * @private
+   */
+  private _getProxyImageSrc = (): string => {
+    if (!this._proxyImageSrc) {
+      const canvas = document.createElement('canvas');
+      const context = canvas.getContext('2d');
+      if (context) {
+        context.globalAlpha = 0;
+        context.fillRect(0, 0, 1, 1);
+      }
+      this._proxyImageSrc = canvas.toDataURL('image/png');
+    }
+    return this._proxyImageSrc;
+  }
+
+  /**
+   * Repositions the visible proxy images to overlay their corresponding "unclickable" elements
+   * within the Quill editor container. Proxies of unclickables out of view are hidden and skipped.
+   * Calculates each unclickable element's position relative to the container with the formatter's `_getOverlayRect` (accounting for scroll offsets,
+   * transforms and zoom), and updates the proxy image's style properties (`left`, `top`, `width`, `height`) accordingly.
    *
    * Handles errors gracefully by logging any issues encountered during positioning.
    *
    * @private
    */
   private _repositionProxyImages = (): void => {
-    if (Object.keys(this.unclickableProxies).length > 0) {
-      const containerRect: DOMRect = this.formatter.quill.container.getBoundingClientRect();
-      const containerScrollLeft: number = this.formatter.quill.container.scrollLeft;
-      const containerScrollTop: number = this.formatter.quill.container.scrollTop;
-
-      Object.entries(this.unclickableProxies).forEach(([key, { unclickable, proxyImage }]) => {
-        try {
-          // Calculate the unclickable's position relative to the container
-          const unclickableRect: DOMRect = unclickable.getBoundingClientRect();
-          Object.assign(proxyImage.style, {
-              // display: 'block',
-              left: `${unclickableRect.left - containerRect.left - 1 + containerScrollLeft}px`,
-              top: `${unclickableRect.top - containerRect.top + containerScrollTop}px`,
-              width: `${unclickableRect.width}px`,
-              height: `${unclickableRect.height}px`,
-            },
-          );
-        } catch (error) {
-          const msg: string = `Error positioning proxy image with id ${key}: `
-          console.error(msg, `${error instanceof Error ? error.message : error}`);
-        }
-      });
-    }
+    this._visibleProxies.forEach(key => {
+      const proxy = this.unclickableProxies[key];
+      if (!proxy) return;
+      try {
+        // position relative to the container, as for the formatter overlay
+        Object.assign(proxy.proxyImage.style, this.formatter._getOverlayRect(proxy.unclickable));
+      } catch (error) {
+        const msg: string = `Error positioning proxy image with id ${key}: `
+        console.error(msg, `${error instanceof Error ? error.message : error}`);
+      }
+    });
   }
 
-
   /**
    * Handles click events on proxy images representing unclickable blots.
    * Retrieves the associated unclickable blot using the proxy's dataset ID,
    * updates the `unclickable` property, and displays the formatter overlay.
+   * With the shift key pressed while the overlay is active, the unclickable is toggled in the
+   * multi-selection instead.
    *
    * @param event - The mouse event triggered by clicking the proxy image.
    */
@@ -256,7 +401,11 @@ export default class UnclickableBlotSpec extends BlotSpec {
     // get target unclickable (unclickable), show overlay
     const targetElement = event.target as HTMLElement;
     const id = targetElement.dataset.blotFormatterId;
-    this.unclickable = this.unclickableProxies[`${id}`].unclickable;
+    const unclickable = this.unclickableProxies[`${id}`].unclickable;
+    if (event.shiftKey && this.formatter.toggleSelection(this, unclickable)) {
+      return;
+    }
+    this.unclickable = unclickable;
     this.formatter.show(this);
   };
 
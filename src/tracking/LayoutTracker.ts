@@ -0,0 +1,140 @@
+import BlotFormatter from '../BlotFormatter';
+
+/**
+ * Watches everything that can move the editor's embeds relative to the Quill container and notifies
+ * subscribers once per animation frame.
+ *
+ * The formatter overlay, multi-selection outlines and video proxy images are absolutely positioned in the
+ * Quill container, so they must be repositioned whenever the embeds move on screen. Embeds move when:
+ *
+ * - the Quill root or any ancestor of the Quill container scrolls (including the window, scrolling modals
+ *   and sticky layouts),
+ * - the root, container or any ancestor changes size (content reflow, panels opening, responsive layouts),
+ * - the window or visual viewport is resized or zoomed.
+ *
+ * @remarks
+ * - Ancestors are collected through shadow roots (via the shadow host) so editors in custom elements are tracked.
+ * - Multiple events in the same frame trigger a single call to each subscriber.
+ * - Listeners are added by `start()` and removed by `stop()`. `start()` collects the ancestors again,
+ *   so it can be called to follow an editor that has been moved in the DOM.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new LayoutTracker(formatter);
+ * const unsubscribe = tracker.subscribe(() => repositionSomething());
+ * tracker.start();
+ * // ... later
+ * unsubscribe();
+ * tracker.stop();
+ * ```
+ */
+export default class LayoutTracker {
+  formatter: BlotFormatter;
+  private _callbacks: Set<() => void> = new Set();
+  private _frame: number | null = null;
+  private _abortController: AbortController | null = null;
+  private _resizeObserver: ResizeObserver | null = null;
+  private debug: boolean;
+
+  constructor(formatter: BlotFormatter) {
+    this.formatter = formatter;
+    this.debug = formatter.options?.debug ?? false;
+  }
+
+  /**
+   * Adds a callback to run (at most once per animation frame) when the layout may have changed.
+   *
+   * @param callback - The function to call.
+   * @returns A function that removes the callback.
+   */
+  subscribe = (callback: () => void): (() => void) => {
+    this._callbacks.add(callback);
+    return () => {
+      this._callbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Starts tracking scroll and resize events for the Quill root, the Quill container and all of its ancestors.
+   * Any existing tracking is stopped first.
+   */
+  start = (): void => {
+    this.stop();
+    this._abortController = new AbortController();
+    const { signal } = this._abortController;
+    const { root, container } = this.formatter.quill;
+    const ancestors = this.getAncestors(container);
+    this._resizeObserver = new ResizeObserver(this.schedule);
+    [root, container, ...ancestors].forEach((element: HTMLElement) => {
+      element.addEventListener('scroll', this.schedule, { passive: true, signal });
+      this._resizeObserver!.observe(element);
+    });
+    window.addEventListener('scroll', this.schedule, { passive: true, signal });
+    window.addEventListener('resize', this.schedule, { passive: true, signal });
+    window.visualViewport?.addEventListener('resize', this.schedule, { passive: true, signal });
+    if (this.debug) console.debug('LayoutTracker tracking ancestors:', ancestors);
+  }
+
+  /**
+   * Stops tracking and cancels any pending frame. Subscribers are kept so tracking can be restarted.
+   */
+  stop = (): void => {
+    this._abortController?.abort();
+    this._abortController = null;
+    this._resizeObserver?.disconnect();
+    this._resizeObserver = null;
+    if (this._frame !== null) {
+      cancelAnimationFrame(this._frame);
+      this._frame = null;
+    }
+  }
+
+  /**
+   * Stops tracking and removes all subscribers.
+   */
+  destroy = (): void => {
+    this.stop();
+    this._callbacks.clear();
+  }
+
+  /**
+   * Requests a call to every subscriber on the next animation frame.
+   * Calls made before the frame runs are merged into one.
+   */
+  schedule = (): void => {
+    if (this._frame !== null) return;
+    this._frame = requestAnimationFrame(() => {
+      this._frame = null;
+      this._callbacks.forEach(callback => {
+        try {
+          callback();
+        } catch (error) {
+          console.error('LayoutTracker callback error:', error);
+        }
+      });
+    });
+  }
+
+  /**
+   * Returns the ancestor elements of an element, from its parent to the document element.
+   * Shadow roots are crossed via their host element.
+   *
+   * @param element - The element to start from.
+   * @returns {HTMLElement[]} The ancestor elements, nearest first.
+   */
+  getAncestors = (element: HTMLElement): HTMLElement[] => {
+    const ancestors: HTMLElement[] = [];
+    let node: Node | null = element.parentNode;
+    while (node) {
+      if (node instanceof ShadowRoot) {
+        node = node.host;
+        continue;
+      }
+      if (node instanceof HTMLElement) {
+        ancestors.push(node);
+      }
+      node = node.parentNode;
+    }
+    return ancestors;
+  }
+}